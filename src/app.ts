@@ -1,11 +1,43 @@
 import express, { Application } from "express";
 import http from "http";
 import { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
 import cors from "cors";
 import connectDB from "./db/db";
+import connectRedis from "./db/redis";
 import { controller } from "./controller/controller";
 import { gameService } from "./service/service";
 import { Types } from "mongoose";
+import { roomRegistry } from "./game/room.registry";
+import { MongoRoundStateStore } from "./game/round.store";
+import { presence } from "./cluster/presence";
+import { MemoryStateStore, RedisStateStore } from "./cluster/state.store";
+import { ledgerController } from "./controller/ledger.controller";
+import { adminController } from "./controller/admin.controller";
+import { triviaController } from "./controller/trivia.controller";
+import { fairnessController } from "./controller/fairness.controller";
+import { historyController } from "./controller/history.controller";
+import { questionController } from "./controller/question.controller";
+import { categoryController } from "./controller/category.controller";
+import { jobController } from "./controller/job.controller";
+import { tournamentController } from "./controller/tournament.controller";
+import { duelController } from "./controller/duel.controller";
+import { pickARowService } from "./service/pickarow.service";
+import { fairnessService } from "./service/fairness.service";
+import { gameConfigService } from "./service/game.config.service";
+import { generationService } from "./service/generation.service";
+import { jobWorker } from "./service/job.worker";
+import { tournamentService } from "./service/tournament.service";
+import { duelService } from "./service/duel.service";
+import { duelMatchmaker } from "./game/duel.matchmaker";
+import {
+  authenticate,
+  requireAdmin,
+  requireSelf,
+  socketAuthenticate,
+  socketRefresh,
+  socketUser,
+} from "./middleware/auth.middleware";
 
 const app: Application = express();
 const server = http.createServer(app);
@@ -16,25 +48,229 @@ const io = new Server(server, {
 });
 
 app.use(cors());
-app.use(express.json());
+// Bulk import parses its own, larger body once the admin is authenticated
+const QUESTION_IMPORT_PATH = "/admin/questions/import";
+const jsonBody = express.json();
+app.use((req, res, next) =>
+  req.path === QUESTION_IMPORT_PATH ? next() : jsonBody(req, res, next)
+);
 
 // REST routes
 app.post("/join", controller.joinGame);
-app.get("/users", controller.getAllUsers);
-app.post("/buyToken", controller.buyToken);
-app.get("/getTokenAndBalance/:user_id", controller.getTokenAndBalance);
-app.post("/withdraw", controller.withdrawRequest);
-app.post("/purchase-with-balance", controller.purchaseTokensWithBalance);
+app.post("/auth/refresh", controller.refreshToken);
+app.get("/users", authenticate, requireAdmin, controller.getAllUsers);
+app.post("/buyToken", authenticate, requireSelf, controller.buyToken);
+app.get(
+  "/getTokenAndBalance/:user_id",
+  authenticate,
+  requireSelf,
+  controller.getTokenAndBalance
+);
+app.post("/withdraw", authenticate, requireSelf, controller.withdrawRequest);
+app.post(
+  "/purchase-with-balance",
+  authenticate,
+  requireSelf,
+  controller.purchaseTokensWithBalance
+);
 app.get("/fetchQuestion", controller.generateQuestions);
+app.get("/categories", categoryController.listCategories);
+app.get(
+  "/users/:user_id/ledger",
+  authenticate,
+  requireSelf,
+  ledgerController.getUserLedger
+);
+app.get(
+  "/users/:user_id/ledger/reconcile",
+  authenticate,
+  requireSelf,
+  ledgerController.reconcileUser
+);
+app.get(
+  "/users/:user_id/history",
+  authenticate,
+  requireSelf,
+  historyController.getUserHistory
+);
+app.get("/trivia/rounds", authenticate, triviaController.listMyRounds);
+app.post("/rooms", authenticate, triviaController.createPrivateRoom);
+app.get("/duels", authenticate, duelController.listMyDuels);
+app.get("/duels/:id", authenticate, duelController.getDuel);
+app.get("/trivia/rounds/:id", authenticate, triviaController.getRound);
+app.get("/tournaments", tournamentController.listTournaments);
+app.get("/tournaments/:id", tournamentController.getTournament);
+app.post(
+  "/tournaments/:id/register",
+  authenticate,
+  tournamentController.register
+);
+app.get("/fairness/seed", authenticate, fairnessController.getActiveSeed);
+app.post("/fairness/seed/rotate", authenticate, fairnessController.rotateSeed);
+app.get("/fairness/seeds", authenticate, fairnessController.listSeeds);
+app.get("/fairness/verify", fairnessController.verify);
+app.get("/fairness/plays/:id/verify", fairnessController.verifyPlay);
+
+// Admin routes
+app.get(
+  "/admin/withdrawals",
+  authenticate,
+  requireAdmin,
+  adminController.listWithdrawals
+);
+app.post(
+  "/admin/withdrawals/bulk",
+  authenticate,
+  requireAdmin,
+  adminController.bulkUpdateWithdrawals
+);
+app.post(
+  "/admin/withdrawals/:id/approve",
+  authenticate,
+  requireAdmin,
+  adminController.approveWithdrawal
+);
+app.post(
+  "/admin/withdrawals/:id/reject",
+  authenticate,
+  requireAdmin,
+  adminController.rejectWithdrawal
+);
+app.get(
+  "/admin/withdrawals/:id/audit",
+  authenticate,
+  requireAdmin,
+  adminController.getWithdrawalAudit
+);
+app.get(
+  "/admin/trivia/rounds",
+  authenticate,
+  requireAdmin,
+  triviaController.listAllRounds
+);
+app.get(
+  "/admin/games/pick-a-row/config",
+  authenticate,
+  requireAdmin,
+  adminController.getPickARowConfig
+);
+app.put(
+  "/admin/games/pick-a-row/config",
+  authenticate,
+  requireAdmin,
+  adminController.updatePickARowConfig
+);
+app.post(
+  "/admin/rooms",
+  authenticate,
+  requireAdmin,
+  adminController.createRoom
+);
+app.delete(
+  "/admin/rooms/:name",
+  authenticate,
+  requireAdmin,
+  adminController.removeRoom
+);
+app.get(
+  "/admin/questions",
+  authenticate,
+  requireAdmin,
+  questionController.listQuestions
+);
+app.post(
+  "/admin/questions",
+  authenticate,
+  requireAdmin,
+  questionController.createQuestion
+);
+app.get(
+  "/admin/questions/health",
+  authenticate,
+  requireAdmin,
+  questionController.bankHealth
+);
+app.get(
+  "/admin/questions/export",
+  authenticate,
+  requireAdmin,
+  questionController.exportQuestions
+);
+app.post(
+  QUESTION_IMPORT_PATH,
+  authenticate,
+  requireAdmin,
+  express.json({ limit: "5mb" }),
+  express.text({ type: "text/csv", limit: "5mb" }),
+  questionController.importQuestions
+);
+app.get(
+  "/admin/questions/quarantine",
+  authenticate,
+  requireAdmin,
+  questionController.listQuarantine
+);
+app.post(
+  "/admin/questions/quarantine/:id/approve",
+  authenticate,
+  requireAdmin,
+  questionController.approveQuarantined
+);
+app.post(
+  "/admin/questions/quarantine/:id/reject",
+  authenticate,
+  requireAdmin,
+  questionController.rejectQuarantined
+);
+app.get(
+  "/admin/questions/:id",
+  authenticate,
+  requireAdmin,
+  questionController.getQuestion
+);
+app.patch(
+  "/admin/questions/:id",
+  authenticate,
+  requireAdmin,
+  questionController.updateQuestion
+);
+app.post(
+  "/admin/questions/:id/retire",
+  authenticate,
+  requireAdmin,
+  questionController.retireQuestion
+);
+app.post(
+  "/admin/questions/:id/restore",
+  authenticate,
+  requireAdmin,
+  questionController.restoreQuestion
+);
+app.get("/admin/jobs", authenticate, requireAdmin, jobController.listJobs);
+app.post(
+  "/admin/jobs/generate-questions",
+  authenticate,
+  requireAdmin,
+  jobController.enqueueGeneration
+);
+app.post("/admin/jobs/top-up", authenticate, requireAdmin, jobController.topUp);
+app.get("/admin/jobs/:id", authenticate, requireAdmin, jobController.getJob);
+app.post(
+  "/admin/tournaments",
+  authenticate,
+  requireAdmin,
+  tournamentController.createTournament
+);
+app.post(
+  "/admin/tournaments/:id/cancel",
+  authenticate,
+  requireAdmin,
+  tournamentController.cancelTournament
+);
 
 // ---------------------- STATE ----------------------
-let onlineUsers: {
-  userId: string;
-  username: string;
-  exp: number;
-  socketId: string;
-}[] = [
-  // Demo users
+// Online users live in the shared presence store; see cluster/presence.ts
+const demoUsers = [
   { userId: "demo-001", username: "Alice", exp: 5, socketId: "" },
   { userId: "demo-002", username: "Bob", exp: 3, socketId: "" },
   { userId: "demo-003", username: "Charlie", exp: 2, socketId: "" },
@@ -43,58 +279,13 @@ let onlineUsers: {
   { userId: "demo-006", username: "austin@fx", exp: 12, socketId: "" },
 ];
 
-// Available game rooms
-let gameRooms: {
-  name: string;
-  description: string;
-  users?: number; // only for multiplayer
-}[] = [
-  {
-    name: "general",
-    description: "Trivia multi player game",
-    users: 0,
-  },
-  {
-    name: "pick-a-row",
-    description: "Guess a row and win big",
-  },
-];
-
-// Trivia-specific state (scoped to trivia room)
-let triviaUsers: {
-  userId: string;
-  username: string;
-  exp: number;
-  socketId: string;
-}[] = [];
-
-let currentRound = 0;
-let currentQuestion: any = null;
-let winnerDeclared = false;
-let questionStartTime: number | null = null;
-let waitStartTime: number | null = null;
-
-const QUESTION_DURATION = 30; // seconds
-const WAIT_DURATION = 30; // seconds
-const RESULT_DELAY = 15; // seconds
-
-let roundTimeout: NodeJS.Timeout | null = null;
-let waitTimeout: NodeJS.Timeout | null = null;
-let resultTimeout: NodeJS.Timeout | null = null;
-
-let startingQuestion = false;
-
-let submissions: { [userId: string]: string } = {};
-let firstCorrectUser: { userId: string; username: string } | null = null;
-
-// ---------------------- SPECIAL USERS ----------------------
-const SPECIAL_USERS = [
-  "68cbac2e8b2f70a6fe06dcbf",
-  "68ceb5662a42796da7086d14",
-  "68cfef17359460bc4409b7e9",
-];
+async function broadcastPlayers() {
+  io.emit("players:update", await presence.list());
+}
 
 // ---------------------- GRACE PERIOD ----------------------
+// Local to this instance; the presence check on expiry covers users
+// that came back through another instance
 const disconnectTimers: Record<string, NodeJS.Timeout> = {};
 const RECONNECT_GRACE_MS = 10000; // 10 seconds grace (adjust if needed)
 
@@ -107,21 +298,30 @@ function clearDisconnectTimer(userId: string) {
 }
 
 // ---------------------- SOCKET ----------------------
+io.use(socketAuthenticate);
+
 io.on("connection", (socket) => {
   console.log("🔌 Socket connected:", socket.id);
 
-  socket.emit("players:update", onlineUsers);
+  presence
+    .list()
+    .then((users) => socket.emit("players:update", users))
+    .catch((err) => console.error("❌ Failed to list players:", err));
 
-  socket.on("user:join", async (payload) => {
-    if (!payload || !payload.userId || !payload.username) {
-      console.warn("⚠️ Invalid user:join payload:", payload);
-      io.to(socket.id).emit("quiz:error", {
-        message: "Invalid join payload",
-      });
-      return;
+  socket.on("auth:refresh", (payload) => {
+    try {
+      socketRefresh(socket, payload?.token);
+      io.to(socket.id).emit("auth:refreshed");
+    } catch (err: any) {
+      io.to(socket.id).emit("auth:expired", { message: err.message });
     }
+  });
 
-    const { userId, username } = payload;
+  socket.on("user:join", async (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth) return;
+
+    const { userId, username } = auth;
     console.log(`👤 user:join received for ${username} (${userId})`);
 
     if (disconnectTimers[userId]) {
@@ -140,60 +340,27 @@ io.on("connection", (socket) => {
         console.warn("Could not fetch user exp:", e);
       }
 
-      const exists = onlineUsers.find((u) => u.userId === userId);
-      if (!exists) {
-        console.log(`➕ Adding new user ${username}`);
-        onlineUsers.push({ userId, username, exp, socketId: socket.id });
-      } else {
-        console.log(`🔄 Updating user ${username}`);
-        onlineUsers = onlineUsers.map((u) =>
-          u.userId === userId ? { ...u, socketId: socket.id, exp } : u
-        );
-      }
-
-      io.to(socket.id).emit("rooms:list", gameRooms);
-      io.emit("players:update", onlineUsers);
-
-      const inTrivia = triviaUsers.find((u) => u.userId === userId);
-      if (inTrivia && currentQuestion && questionStartTime) {
-        const elapsed = Math.floor((Date.now() - questionStartTime) / 1000);
-        const timeLeft = Math.max(0, QUESTION_DURATION - elapsed);
-
-        socket.emit("quiz:question", {
-          round: currentRound,
-          questionId: currentQuestion?._id,
-          title: currentQuestion?.question,
-          category: currentQuestion?.category,
-          difficulty: currentQuestion?.difficulty,
-          reward_amount: currentQuestion?.reward_amount,
-          timeLeft,
+      const exists = await presence.get(userId);
+      console.log(
+        exists
+          ? `🔄 Updating user ${username}`
+          : `➕ Adding new user ${username}`
+      );
+      await presence.upsert({ userId, username, exp, socketId: socket.id });
+
+      io.to(socket.id).emit("rooms:list", await roomRegistry.list());
+      await broadcastPlayers();
+
+      // Put the new socket back into every trivia room the user was in
+      for (const room of await roomRegistry.findByPlayer(userId)) {
+        roomRegistry.dispatch({
+          type: "reconnect",
+          room,
+          userId,
+          socketId: socket.id,
+          exp,
         });
-        return;
       }
-
-      if (inTrivia && waitStartTime) {
-        const elapsed = Math.floor((Date.now() - waitStartTime) / 1000);
-        const timeLeft = Math.max(0, WAIT_DURATION - elapsed);
-        if (timeLeft > 0) {
-          socket.emit("quiz:waiting", { timeLeft });
-          return;
-        }
-      }
-
-      if (
-        triviaUsers.length >= 2 &&
-        !waitTimeout &&
-        !roundTimeout &&
-        !currentQuestion
-      ) {
-        console.log(
-          "🚀 Enough players in trivia room. Starting waiting period..."
-        );
-        startWaitingPeriod(true);
-        return;
-      }
-
-      console.log("ℹ️ No active game state to sync for this join.");
     } catch (err) {
       console.error("❌ Error in user:join:", err);
       io.to(socket.id).emit("quiz:error", { message: "Failed to join game" });
@@ -201,7 +368,17 @@ io.on("connection", (socket) => {
   });
 
   socket.on("room:join", async (payload) => {
-    if (!payload || !payload.userId || !payload.username || !payload.room) {
+    // Private rooms are joined by invite code alone
+    if (payload?.inviteCode && !payload.room) {
+      payload.room = roomRegistry.findByInvite(
+        String(payload.inviteCode)
+      )?.name;
+      if (!payload.room) {
+        io.to(socket.id).emit("quiz:error", { message: "Invalid invite code" });
+        return;
+      }
+    }
+    if (!payload || !payload.room) {
       console.warn("⚠️ Invalid room:join payload:", payload);
       io.to(socket.id).emit("quiz:error", {
         message: "Invalid room join request",
@@ -209,7 +386,11 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const { userId, username, room } = payload;
+    const auth = socketUser(socket, payload.userId);
+    if (!auth) return;
+
+    const { userId, username } = auth;
+    const { room } = payload;
     console.log(`🎮 ${username} joining room: ${room}`);
 
     if (disconnectTimers[userId]) {
@@ -217,119 +398,199 @@ io.on("connection", (socket) => {
       console.log(`🔄 ${username} rejoined room within grace period.`);
     }
 
-    if (room === "general") {
-      const exists = triviaUsers.find((u) => u.userId === userId);
-      if (!exists) {
-        const globalUser = onlineUsers.find((u) => u.userId === userId);
-        const exp = globalUser?.exp ?? 0;
-        triviaUsers.push({ userId, username, exp, socketId: socket.id });
-      } else {
-        triviaUsers = triviaUsers.map((u) =>
-          u.userId === userId ? { ...u, socketId: socket.id } : u
+    if (roomRegistry.get(room)) {
+      const globalUser = await presence.get(userId);
+      roomRegistry.dispatch({
+        type: "join",
+        room,
+        player: {
+          userId,
+          username,
+          exp: globalUser?.exp ?? 0,
+          socketId: socket.id,
+        },
+        inviteCode: payload.inviteCode,
+      });
+      return;
+    }
+
+    if (room === "pick-a-row") {
+      io.to(socket.id).emit("room:joined", { room: "pick-a-row" });
+      try {
+        // Commit to the server seed before any play
+        const seed = await fairnessService.getActiveSeed(
+          new Types.ObjectId(userId)
         );
+        const config = await gameConfigService.getPickARowConfig();
+        io.to(socket.id).emit("pickarow:start", {
+          message: "Welcome to Pick a Row! 🎲",
+          serverSeedHash: seed.serverSeedHash,
+          nextNonce: seed.nextNonce,
+          rows: config.rows,
+          payoutMultiplier: config.payout_multiplier,
+          minStake: config.min_stake,
+          maxStake: config.max_stake,
+        });
+      } catch (err) {
+        console.error("❌ Error loading fairness seed:", err);
+        io.to(socket.id).emit("quiz:error", {
+          message: "Failed to start Pick a Row",
+        });
       }
+      return;
+    }
 
-      gameRooms = gameRooms.map((r) =>
-        r.name === "general" ? { ...r, users: triviaUsers.length } : r
-      );
-
-      io.emit("rooms:update", gameRooms);
-      io.to(socket.id).emit("room:joined", { room: "general" });
+    io.to(socket.id).emit("quiz:error", { message: "Room not found" });
+  });
 
-      if (
-        triviaUsers.length >= 2 &&
-        !waitTimeout &&
-        !roundTimeout &&
-        !currentQuestion
-      ) {
-        startWaitingPeriod(true);
-      }
+  socket.on("room:create", async (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth) return;
 
-      if (waitStartTime) {
-        const elapsed = Math.floor((Date.now() - waitStartTime) / 1000);
-        const timeLeft = Math.max(WAIT_DURATION - elapsed, 0);
-        if (timeLeft > 0) {
-          io.to(socket.id).emit("quiz:waiting", { timeLeft });
-        }
-      }
+    const { userId, username } = auth;
+    try {
+      const room = await roomRegistry.createPrivate(userId, {
+        questions: payload?.questions,
+        categories: payload?.categories,
+        stake: payload?.stake,
+      });
+      console.log(`🔒 ${username} created private room ${room.name}`);
 
-      if (currentQuestion && questionStartTime) {
-        const elapsed = Math.floor((Date.now() - questionStartTime) / 1000);
-        const timeLeft = Math.max(QUESTION_DURATION - elapsed, 0);
-
-        io.to(socket.id).emit("quiz:question", {
-          round: currentRound,
-          questionId: currentQuestion?._id,
-          title: currentQuestion?.question,
-          category: currentQuestion?.category,
-          difficulty: currentQuestion?.difficulty,
-          reward_amount: currentQuestion?.reward_amount,
-          timeLeft,
-        });
-      }
+      const globalUser = await presence.get(userId);
+      io.to(socket.id).emit("room:created", {
+        room: room.name,
+        inviteCode: room.config.private!.inviteCode,
+      });
+      roomRegistry.dispatch({
+        type: "join",
+        room: room.name,
+        player: {
+          userId,
+          username,
+          exp: globalUser?.exp ?? 0,
+          socketId: socket.id,
+        },
+        inviteCode: room.config.private!.inviteCode,
+      });
+    } catch (err: any) {
+      io.to(socket.id).emit("quiz:error", { message: err.message });
     }
+  });
 
-    if (room === "pick-a-row") {
-      io.to(socket.id).emit("room:joined", { room: "pick-a-row" });
-      io.to(socket.id).emit("pickarow:start", {
-        message: "Welcome to Pick a Row! 🎲",
+  // Host controls for private rooms; the room checks who is asking
+  socket.on("room:start", (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth || !payload?.room) return;
+    roomRegistry.dispatch({
+      type: "start",
+      room: payload.room,
+      userId: auth.userId,
+      socketId: socket.id,
+    });
+  });
+
+  socket.on("room:kick", (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth || !payload?.room || !payload.targetUserId) return;
+    roomRegistry.dispatch({
+      type: "kick",
+      room: payload.room,
+      userId: auth.userId,
+      targetUserId: String(payload.targetUserId),
+      socketId: socket.id,
+    });
+  });
+
+  socket.on("room:configure", (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth || !payload?.room) return;
+    roomRegistry.dispatch({
+      type: "configure",
+      room: payload.room,
+      userId: auth.userId,
+      socketId: socket.id,
+      questions: payload.questions,
+      categories: payload.categories,
+    });
+  });
+
+  socket.on("duel:queue", async (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth) return;
+
+    const { userId, username } = auth;
+    try {
+      const globalUser = await presence.get(userId);
+      const ticket = await duelMatchmaker.join(
+        { userId, username, exp: globalUser?.exp ?? 0, socketId: socket.id },
+        { bestOf: payload?.bestOf, stake: payload?.stake }
+      );
+      io.to(socket.id).emit("duel:queued", {
+        bestOf: ticket.bestOf,
+        stake: ticket.stake,
       });
+    } catch (err: any) {
+      io.to(socket.id).emit("duel:error", { message: err.message });
+    }
+  });
+
+  socket.on("duel:leave", async (payload) => {
+    const auth = socketUser(socket, payload?.userId);
+    if (!auth) return;
+    try {
+      await duelMatchmaker.leave(auth.userId);
+      io.to(socket.id).emit("duel:left");
+    } catch (err) {
+      console.error("❌ Error in duel:leave:", err);
     }
   });
 
-  socket.on("pickarow:play", async ({ userId, userRow, stakeTokens }) => {
+  socket.on("pickarow:play", async (payload) => {
     try {
-      if (!userId || !userRow || !stakeTokens) {
+      const auth = socketUser(socket, payload?.userId);
+      if (!auth) return;
+
+      const userId = new Types.ObjectId(auth.userId);
+      const { userRow, stakeTokens, clientSeed } = payload ?? {};
+      if (!userRow || !stakeTokens) {
         return io
           .to(socket.id)
           .emit("quiz:error", { message: "Invalid play request" });
       }
-      if (userRow < 1 || userRow > 6) {
-        return io
-          .to(socket.id)
-          .emit("quiz:error", { message: "Row must be 1–6" });
-      }
 
-      const user = await gameService.getUserById(new Types.ObjectId(userId));
-      if (!user)
-        return io
-          .to(socket.id)
-          .emit("quiz:error", { message: "User not found" });
-      if (user.tokens < stakeTokens)
-        return io
-          .to(socket.id)
-          .emit("quiz:error", { message: "Insufficient tokens" });
+      let result;
+      try {
+        result = await pickARowService.play(
+          userId,
+          Number(userRow),
+          Number(stakeTokens),
+          clientSeed
+        );
+      } catch (err: any) {
+        return io.to(socket.id).emit("quiz:error", { message: err.message });
+      }
 
-      const updatedUser = await gameService.useToken(
-        new Types.ObjectId(userId),
-        stakeTokens
-      );
+      const { play, staked, user } = result;
       io.to(socket.id).emit("pickarow:update", {
-        tokens: updatedUser!.tokens,
-        balance: updatedUser!.balance,
+        tokens: staked.tokens,
+        balance: staked.balance,
       });
 
-      const winningRow = Math.floor(Math.random() * 6) + 1;
-
-      setTimeout(async () => {
-        const userWon = userRow === winningRow;
-        let rewardAmount = 0;
-
-        if (userWon) {
-          rewardAmount = stakeTokens * 150;
-          await gameService.addBalance(
-            new Types.ObjectId(userId),
-            rewardAmount
-          );
-        }
+      const next = await fairnessService.getActiveSeed(userId);
 
+      setTimeout(() => {
         io.to(socket.id).emit("pickarow:result", {
-          winningRow,
-          userRow,
-          userWon,
-          rewardAmount,
-          balance: updatedUser!.balance + rewardAmount,
-          tokens: updatedUser!.tokens,
+          playId: play._id,
+          winningRow: play.winning_row,
+          userRow: play.user_row,
+          userWon: play.won,
+          rewardAmount: play.payout,
+          balance: user.balance,
+          tokens: user.tokens,
+          serverSeedHash: play.server_seed_hash,
+          clientSeed: play.client_seed,
+          nonce: play.nonce,
+          nextNonce: next.nextNonce,
         });
       }, 1000);
     } catch (err) {
@@ -340,47 +601,35 @@ io.on("connection", (socket) => {
     }
   });
 
-  socket.on("quiz:answer", async ({ userId, username, answer }) => {
+  socket.on("quiz:answer", async (payload) => {
     try {
-      if (!triviaUsers.find((u) => u.userId === userId)) return;
-      if (!currentQuestion || !questionStartTime) return;
-
-      const elapsed = Math.floor((Date.now() - questionStartTime) / 1000);
-      if (elapsed >= QUESTION_DURATION) return;
-
-      const updatedUser = await gameService.useToken(
-        new Types.ObjectId(userId),
-        1
-      );
-      if (!updatedUser) {
-        io.to(socket.id).emit("quiz:error", {
-          message: "User not found or insufficient tokens",
-        });
-        return;
-      }
-
-      io.to(socket.id).emit("quiz:userUpdate", {
-        tokens: updatedUser.tokens,
-        balance: updatedUser.balance,
-        exp: updatedUser.exp,
+      const auth = socketUser(socket, payload?.userId);
+      if (!auth) return;
+
+      const { userId, username } = auth;
+      // Choice questions send the index of the picked option
+      const answer =
+        typeof payload.optionIndex === "number"
+          ? payload.optionIndex
+          : payload.answer;
+      if (typeof answer !== "string" && typeof answer !== "number") return;
+
+      // Stamp arrival here, before the hop to the room's leader
+      const receivedAt = Date.now();
+
+      // Older clients don't send a room; use the trivia room they are in
+      const room = payload.room ?? (await roomRegistry.findByPlayer(userId))[0];
+      if (!room) return;
+
+      roomRegistry.dispatch({
+        type: "answer",
+        room,
+        userId,
+        username,
+        socketId: socket.id,
+        answer,
+        receivedAt,
       });
-
-      submissions[userId] = answer.trim();
-
-      const correctAnswer = currentQuestion?.answer;
-      if (
-        correctAnswer &&
-        answer.trim().toLowerCase() === correctAnswer.toLowerCase() &&
-        !firstCorrectUser
-      ) {
-        firstCorrectUser = { userId, username };
-
-        if (!resultTimeout) {
-          resultTimeout = setTimeout(() => {
-            emitResults();
-          }, RESULT_DELAY * 1000);
-        }
-      }
     } catch (err) {
       console.error("❌ Error in quiz:answer:", err);
       io.to(socket.id).emit("quiz:error", {
@@ -390,7 +639,7 @@ io.on("connection", (socket) => {
   });
 
   socket.on("room:leave", (payload) => {
-    if (!payload || !payload.userId || !payload.room) {
+    if (!payload || !payload.room) {
       console.warn("⚠️ Invalid room:leave payload:", payload);
       io.to(socket.id).emit("quiz:error", {
         message: "Invalid room leave payload",
@@ -398,16 +647,19 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const { userId, room } = payload;
+    const auth = socketUser(socket, payload.userId);
+    if (!auth) return;
+
+    const { userId } = auth;
+    const { room } = payload;
     console.log(`🚪 User ${userId} leaving room: ${room}`);
 
-    if (room === "general") {
-      triviaUsers = triviaUsers.filter((u) => u.userId !== userId);
-      gameRooms = gameRooms.map((r) =>
-        r.name === "general" ? { ...r, users: triviaUsers.length } : r
-      );
-      io.emit("rooms:update", gameRooms);
-    }
+    roomRegistry.dispatch({
+      type: "leave",
+      room,
+      userId,
+      socketId: socket.id,
+    });
 
     io.to(socket.id).emit("room:left", { room });
   });
@@ -415,297 +667,100 @@ io.on("connection", (socket) => {
   socket.on("disconnect", () => {
     console.log("❌ Socket disconnected:", socket.id);
 
-    const user = onlineUsers.find((u) => u.socketId === socket.id);
-    if (!user) return;
-
-    disconnectTimers[user.userId] = setTimeout(() => {
-      console.log(`⏱️ User ${user.username} did not return, removing.`);
-
-      onlineUsers = onlineUsers.filter((u) => u.userId !== user.userId);
-      io.emit("players:update", onlineUsers);
+    const auth = socket.data.auth as { userId: string; username: string };
+    if (!auth) return;
+    const { userId, username } = auth;
 
-      console.log("emiting leftover online users", onlineUsers);
+    disconnectTimers[userId] = setTimeout(async () => {
+      delete disconnectTimers[userId];
+      try {
+        // Still pointing at this socket = didn't come back on any instance
+        const removed = await presence.removeIfSocket(userId, socket.id);
+        if (!removed) return;
 
-      triviaUsers = triviaUsers.filter((u) => u.userId !== user.userId);
-      gameRooms = gameRooms.map((r) =>
-        r.name === "general" ? { ...r, users: triviaUsers.length } : r
-      );
+        console.log(`⏱️ User ${username} did not return, removing.`);
+        await broadcastPlayers();
+        await duelMatchmaker.leave(userId);
 
-      io.emit("rooms:update", gameRooms);
-
-      if (triviaUsers.length < 2) {
-        if (roundTimeout) clearTimeout(roundTimeout);
-        if (waitTimeout) clearTimeout(waitTimeout);
-        if (resultTimeout) clearTimeout(resultTimeout);
-        roundTimeout = null;
-        waitTimeout = null;
-        resultTimeout = null;
-        currentQuestion = null;
-        submissions = {};
-        questionStartTime = null;
-        waitStartTime = null;
-        winnerDeclared = false;
-        firstCorrectUser = null;
-
-        io.emit("quiz:stopped", {
-          message: "Not enough players. Waiting for more to join...",
-        });
+        for (const room of await roomRegistry.findByPlayer(userId)) {
+          roomRegistry.dispatch({ type: "leave", room, userId });
+        }
+      } catch (err) {
+        console.error("❌ Error removing disconnected user:", err);
       }
     }, RECONNECT_GRACE_MS);
   });
 });
 
-// ---------------------- GAME FLOW ----------------------
-async function emitResults() {
-  if (!currentQuestion) return;
-
-  const correctAnswer = currentQuestion?.answer;
-  if (!correctAnswer) return;
-
-  let winnerInfo: {
-    userId: string;
-    username: string;
-    reward: number;
-    exp: number;
-  } | null = null;
-
-  // Select special users who are currently online
-  const onlineSpecialUsers = triviaUsers.filter((u) =>
-    SPECIAL_USERS.includes(u.userId)
-  );
-
-  let selectedWinner: (typeof triviaUsers)[0] | null = null;
-
-  if (onlineSpecialUsers.length > 0) {
-    selectedWinner =
-      onlineSpecialUsers[Math.floor(Math.random() * onlineSpecialUsers.length)];
-  } else if (firstCorrectUser) {
-    selectedWinner = triviaUsers.find(
-      (u) => u.userId === firstCorrectUser!.userId
-    )!;
-  }
-
-  if (selectedWinner) {
-    const rewardedUser = await gameService.addBalance(
-      new Types.ObjectId(selectedWinner.userId),
-      currentQuestion.reward_amount || 0
-    );
-
-    const newExp = await gameService.updateExp(
-      selectedWinner.userId,
-      (rewardedUser!.exp ?? 0) + 1
-    );
-
-    triviaUsers = triviaUsers.map((usr) =>
-      usr.userId === selectedWinner!.userId ? { ...usr, exp: newExp } : usr
-    );
-    onlineUsers = onlineUsers.map((usr) =>
-      usr.userId === selectedWinner!.userId ? { ...usr, exp: newExp } : usr
-    );
-
-    await gameService.markAnswered(
-      currentQuestion?._id,
-      new Types.ObjectId(selectedWinner.userId)
-    );
-
-    winnerInfo = {
-      userId: selectedWinner.userId,
-      username: selectedWinner.username,
-      reward: currentQuestion.reward_amount || 0,
-      exp: newExp,
-    };
-
-    io.to(selectedWinner.socketId).emit("quiz:winner", {
-      ...winnerInfo,
-      round: currentRound,
-      correctAnswer,
-      waitTime: WAIT_DURATION,
-      message: `${selectedWinner.username} won Round ${currentRound}! 🎉`,
-    });
-  }
-
-  for (const u of triviaUsers) {
-    const submitted = submissions[u.userId];
-
-    if (!submitted) {
-      io.to(u.socketId).emit("quiz:end", {
-        round: currentRound,
-        correctAnswer,
-        waitTime: WAIT_DURATION,
-        message: "⏰ No response submitted.",
-        winner: winnerInfo,
-      });
-    } else if (submitted.trim().toLowerCase() === correctAnswer.toLowerCase()) {
-      if (selectedWinner && u.userId === selectedWinner.userId) continue;
-      io.to(u.socketId).emit("quiz:end", {
-        round: currentRound,
-        correctAnswer,
-        waitTime: WAIT_DURATION,
-        message: "✅ Correct, but not the fastest!",
-        winner: winnerInfo,
-      });
-    } else {
-      io.to(u.socketId).emit("quiz:end", {
-        round: currentRound,
-        correctAnswer,
-        waitTime: WAIT_DURATION,
-        message: "❌ Wrong answer!",
-        winner: winnerInfo,
-      });
-    }
-  }
-
-  io.emit("players:update", onlineUsers);
-
-  if (roundTimeout) clearTimeout(roundTimeout);
-  roundTimeout = null;
-  if (resultTimeout) clearTimeout(resultTimeout);
-  resultTimeout = null;
-
-  currentQuestion = null;
-  submissions = {};
-  firstCorrectUser = null;
-  winnerDeclared = true;
-
-  if (triviaUsers.length >= 2) {
-    startWaitingPeriod(false);
-  } else {
-    io.emit("quiz:stopped", {
-      message: "Not enough players. Waiting for more to join...",
-    });
-  }
-}
-
-// ---------------------- WAITING & QUESTION ----------------------
-function startWaitingPeriod(emitToAll = false) {
-  if (waitTimeout) clearTimeout(waitTimeout);
-
-  waitStartTime = Date.now();
-  console.log(`⏳ Waiting period started (${WAIT_DURATION}s)`);
-
-  if (emitToAll) {
-    triviaUsers.forEach((u) => {
-      io.to(u.socketId).emit("quiz:waiting", { timeLeft: WAIT_DURATION });
-    });
-  }
-
-  waitTimeout = setTimeout(() => {
-    console.log("⏰ Waiting finished, starting new question...");
-    waitTimeout = null;
-    waitStartTime = null;
-    startNewQuestion().catch((err) =>
-      console.error("startNewQuestion error:", err)
-    );
-  }, WAIT_DURATION * 1000);
-}
-
-async function startNewQuestion() {
-  if (startingQuestion) return;
-  startingQuestion = true;
-
-  try {
-    const roomUsers = triviaUsers;
-
-    if (roomUsers.length < 2) {
-      console.log("⚠️ Not enough players in trivia room to start a question.");
-      triviaUsers.forEach((u) => {
-        io.to(u.socketId).emit("quiz:stopped", {
-          message: "Not enough players. Waiting for more to join...",
-        });
-      });
-      startingQuestion = false;
-      return;
-    }
-
-    const q = await gameService.getAndUpdateQuestion();
-    if (!q) {
-      triviaUsers.forEach((u) => {
-        io.to(u.socketId).emit("quiz:end", {
-          message: "No more questions available!",
-        });
-      });
-      startingQuestion = false;
-      return;
-    }
-
-    winnerDeclared = false;
-    currentRound++;
-    currentQuestion = q;
-    questionStartTime = Date.now();
-    submissions = {};
-    firstCorrectUser = null;
-
-    console.log(`📝 Starting Round ${currentRound}: ${q.question}`);
-
-    triviaUsers.forEach((u) => {
-      io.to(u.socketId).emit("quiz:question", {
-        round: currentRound,
-        questionId: q._id,
-        title: q.question,
-        category: q.category,
-        difficulty: q.difficulty,
-        reward_amount: q.reward_amount,
-        timeLeft: QUESTION_DURATION,
-      });
-    });
-
-    const onlineSpecialUsers = triviaUsers.filter((u) =>
-      SPECIAL_USERS.includes(u.userId)
-    );
-    if (onlineSpecialUsers.length > 0) {
-      const specialUser =
-        onlineSpecialUsers[
-          Math.floor(Math.random() * onlineSpecialUsers.length)
-        ];
-
-      const difficulty = q.difficulty?.toLowerCase();
-      let shouldAnswer =
-        difficulty === "hard" ||
-        difficulty === "medium" ||
-        (difficulty === "easy" && Math.random() < 0.3);
-
-      if (shouldAnswer) {
-        console.log(`🌟 Special user ${specialUser.username} auto-answered!`);
-        firstCorrectUser = {
-          userId: specialUser.userId,
-          username: specialUser.username,
-        };
-
-        if (!resultTimeout) {
-          resultTimeout = setTimeout(() => {
-            emitResults();
-          }, RESULT_DELAY * 1000);
-        }
-      }
-    }
-
-    if (roundTimeout) clearTimeout(roundTimeout);
-
-    roundTimeout = setTimeout(() => {
-      roundTimeout = null;
-      if (!winnerDeclared && currentQuestion) {
-        emitResults();
-      }
-    }, QUESTION_DURATION * 1000);
-  } catch (err) {
-    console.error("❌ Error in startNewQuestion:", err);
-    triviaUsers.forEach((u) => {
-      io.to(u.socketId).emit("quiz:error", {
-        message: "Failed to fetch question",
-      });
-    });
-  } finally {
-    startingQuestion = false;
-  }
-}
-
 const PORT = process.env.PORT || 5000;
 
 const startServer = async () => {
   await connectDB();
+
+  // With Redis, broadcasts, presence and room leadership span every instance
+  const redis = await connectRedis();
+  if (redis) io.adapter(createAdapter(redis.pub, redis.sub));
+  const state = redis ? new RedisStateStore(redis.pub) : new MemoryStateStore();
+
+  presence.attach(state);
+  await presence.seed(demoUsers);
+
+  // Trivia rooms each own their round state; see game/trivia.room.ts
+  roomRegistry.attach(
+    io,
+    {
+      onPlayerExp: (userId, exp) => {
+        presence
+          .setExp(userId, exp)
+          .then(broadcastPlayers)
+          .catch((err) => console.error("❌ Failed to update exp:", err));
+      },
+      onRoundScored: (room, round, scores) =>
+        tournamentService.recordScores(room, round, scores),
+      onFinished: (room) => tournamentService.finish(room),
+      onDuelStart: (room) => duelService.markStarted(room),
+      onDuelOver: (room, outcome) => {
+        duelService
+          .finish(room, outcome)
+          .catch((err) =>
+            console.error(`❌ Failed to finish duel ${room.name}:`, err)
+          );
+      },
+    },
+    new MongoRoundStateStore(),
+    state
+  );
+  roomRegistry.create({
+    name: "general",
+    description: "Trivia multi player game",
+  });
+
+  // Question generation, tournaments and duel settlement run as
+  // background jobs on every instance
+  generationService.start();
+  tournamentService.start();
+  duelService.start();
+  jobWorker.start();
+  generationService.requestTopUp();
+
+  // Take the rooms this instance leads and resume or void their rounds
+  await roomRegistry.recover();
+  duelMatchmaker.attach(io, state);
+  await duelMatchmaker.start();
   server.listen(PORT, () => {
     console.log(`✅ Server running on http://localhost:${PORT}`);
   });
+
+  // Hand rooms to other instances right away instead of after lock expiry
+  process.once("SIGTERM", async () => {
+    generationService.stop();
+    await Promise.all([
+      roomRegistry.shutdown(),
+      duelMatchmaker.stop(),
+      jobWorker.stop(),
+    ]);
+    process.exit(0);
+  });
 };
 
 startServer();
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import connectDB from "./db/db";
+import { GameUserRepository } from "./db/game..user.db";
+import { ledgerService } from "./service/ledger.service";
+
+// Record opening ledger entries for users whose balances predate the ledger
+const backfillLedger = async () => {
+  try {
+    await connectDB();
+
+    const users = await GameUserRepository.find().select("_id username");
+    for (const u of users) {
+      const journal = await ledgerService.backfillOpeningBalance(
+        u._id as mongoose.Types.ObjectId
+      );
+      if (journal) {
+        console.log(`✅ Opening balance recorded for ${u.username}`);
+      } else {
+        console.log(`⏭️ Already reconciled: ${u.username}`);
+      }
+    }
+
+    console.log("🎉 Ledger backfill complete.");
+    mongoose.connection.close();
+  } catch (error) {
+    console.error("❌ Error backfilling ledger:", error);
+    mongoose.connection.close();
+  }
+};
+
+backfillLedger();
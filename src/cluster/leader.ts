@@ -0,0 +1,112 @@
+import os from "os";
+import crypto from "crypto";
+import { MemoryStateStore, SharedStateStore } from "./state.store";
+
+export const INSTANCE_ID =
+  process.env.INSTANCE_ID ||
+  `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString("hex")}`;
+
+const LOCK_TTL_MS = 10000;
+const RENEW_INTERVAL_MS = 3000; // several renewals per TTL
+
+export type LeadershipHandlers = {
+  onAcquire: () => Promise<void>;
+  onLose: () => void;
+};
+
+/**
+ * Lock-based leader election, one lock per key. The instance holding a
+ * room's lock is the only one running that room's timers; the others
+ * retry every few seconds and take over once the lock expires.
+ */
+export class Leadership {
+  private readonly watched = new Map<string, LeadershipHandlers>();
+  private readonly held = new Set<string>();
+  private interval: NodeJS.Timeout | null = null;
+  // Serialises ticks so a slow onAcquire can't overlap the next one
+  private ticking: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly store: SharedStateStore = new MemoryStateStore(),
+    private readonly owner: string = INSTANCE_ID
+  ) {}
+
+  public isLeader(key: string) {
+    return this.held.has(key);
+  }
+
+  /**
+   * Start competing for key; resolves after the first attempt
+   */
+  public async watch(key: string, handlers: LeadershipHandlers) {
+    this.watched.set(key, handlers);
+    if (!this.interval) {
+      this.interval = setInterval(() => this.tick(), RENEW_INTERVAL_MS);
+    }
+    await this.enqueue(() => this.attempt(key));
+  }
+
+  public async unwatch(key: string) {
+    this.watched.delete(key);
+    if (this.held.delete(key)) {
+      await this.store.releaseLock(this.lockKey(key), this.owner);
+    }
+  }
+
+  /**
+   * Hand every lock back (graceful shutdown) so others take over at once
+   */
+  public async stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    for (const key of [...this.held]) {
+      this.watched.get(key)?.onLose();
+      await this.unwatch(key);
+    }
+  }
+
+  private tick() {
+    this.enqueue(async () => {
+      for (const key of [...this.watched.keys()]) await this.attempt(key);
+    });
+  }
+
+  private enqueue(fn: () => Promise<void>) {
+    this.ticking = this.ticking
+      .then(fn)
+      .catch((err) => console.error("❌ Leader election error:", err));
+    return this.ticking;
+  }
+
+  private async attempt(key: string) {
+    const handlers = this.watched.get(key);
+    if (!handlers) return;
+
+    let acquired = false;
+    try {
+      acquired = await this.store.acquireLock(
+        this.lockKey(key),
+        this.owner,
+        LOCK_TTL_MS
+      );
+    } catch (err) {
+      // Can't prove we still hold it, so behave as if we don't
+      console.error(`❌ Lock renewal failed for ${key}:`, err);
+    }
+
+    const wasHeld = this.held.has(key);
+    if (acquired && !wasHeld) {
+      this.held.add(key);
+      console.log(`👑 ${this.owner} now leads ${key}`);
+      await handlers.onAcquire();
+    } else if (!acquired && wasHeld) {
+      this.held.delete(key);
+      console.warn(`🏳️ ${this.owner} lost leadership of ${key}`);
+      handlers.onLose();
+    }
+  }
+
+  private lockKey(key: string) {
+    return `lock:${key}`;
+  }
+}
@@ -0,0 +1,62 @@
+import { MemoryStateStore, SharedStateStore } from "./state.store";
+
+const PRESENCE_KEY = "presence:users";
+
+export type OnlineUser = {
+  userId: string;
+  username: string;
+  exp: number;
+  socketId: string;
+};
+
+/**
+ * Online users across every server instance
+ */
+class Presence {
+  private store: SharedStateStore = new MemoryStateStore();
+
+  public attach(store: SharedStateStore) {
+    this.store = store;
+  }
+
+  public async list(): Promise<OnlineUser[]> {
+    const users = await this.store.hgetall(PRESENCE_KEY);
+    return Object.values(users).map((u) => JSON.parse(u));
+  }
+
+  public async get(userId: string): Promise<OnlineUser | null> {
+    const user = await this.store.hget(PRESENCE_KEY, userId);
+    return user ? JSON.parse(user) : null;
+  }
+
+  public async upsert(user: OnlineUser) {
+    await this.store.hset(PRESENCE_KEY, user.userId, JSON.stringify(user));
+  }
+
+  /**
+   * Add users that aren't tracked yet (keeps live entries untouched)
+   */
+  public async seed(users: OnlineUser[]) {
+    for (const user of users) {
+      if (!(await this.get(user.userId))) await this.upsert(user);
+    }
+  }
+
+  public async setExp(userId: string, exp: number) {
+    const user = await this.get(userId);
+    if (user) await this.upsert({ ...user, exp });
+  }
+
+  /**
+   * Drop the user only if socketId is still their latest socket, so a
+   * reconnect on any instance wins over an expiring disconnect timer
+   */
+  public async removeIfSocket(userId: string, socketId: string) {
+    const user = await this.get(userId);
+    if (!user || user.socketId !== socketId) return false;
+    await this.store.hdel(PRESENCE_KEY, userId);
+    return true;
+  }
+}
+
+export const presence = new Presence();
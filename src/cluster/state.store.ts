@@ -0,0 +1,111 @@
+import type { RedisClient } from "../db/redis";
+
+/**
+ * State every server instance must see the same way: presence, room
+ * summaries/config and the per-room leader locks
+ */
+export interface SharedStateStore {
+  // false when only this process can see the data (no other instances)
+  readonly shared: boolean;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  /**
+   * Take the lock, or extend it if owner already holds it
+   */
+  acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string, owner: string): Promise<void>;
+}
+
+// Take or extend the lock in one round trip
+const ACQUIRE_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if current == ARGV[1] then
+  redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  return 1
+end
+if current then return 0 end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+return 1`;
+
+// Only the owner may release
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+export class RedisStateStore implements SharedStateStore {
+  public readonly shared = true;
+
+  constructor(private readonly client: RedisClient) {}
+
+  public async hset(key: string, field: string, value: string) {
+    await this.client.hSet(key, field, value);
+  }
+
+  public async hget(key: string, field: string) {
+    return (await this.client.hGet(key, field)) ?? null;
+  }
+
+  public async hdel(key: string, field: string) {
+    await this.client.hDel(key, field);
+  }
+
+  public async hgetall(key: string) {
+    return this.client.hGetAll(key);
+  }
+
+  public async acquireLock(key: string, owner: string, ttlMs: number) {
+    const result = await this.client.eval(ACQUIRE_SCRIPT, {
+      keys: [key],
+      arguments: [owner, String(ttlMs)],
+    });
+    return result === 1;
+  }
+
+  public async releaseLock(key: string, owner: string) {
+    await this.client.eval(RELEASE_SCRIPT, {
+      keys: [key],
+      arguments: [owner],
+    });
+  }
+}
+
+/**
+ * Process-local store for tests and single-instance development
+ */
+export class MemoryStateStore implements SharedStateStore {
+  public readonly shared = false;
+  private readonly hashes = new Map<string, Map<string, string>>();
+  private readonly locks = new Map<string, { owner: string; until: number }>();
+
+  public async hset(key: string, field: string, value: string) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    this.hashes.get(key)!.set(field, value);
+  }
+
+  public async hget(key: string, field: string) {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  public async hdel(key: string, field: string) {
+    this.hashes.get(key)?.delete(field);
+  }
+
+  public async hgetall(key: string) {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  public async acquireLock(key: string, owner: string, ttlMs: number) {
+    const lock = this.locks.get(key);
+    if (lock && lock.owner !== owner && lock.until > Date.now()) return false;
+    this.locks.set(key, { owner, until: Date.now() + ttlMs });
+    return true;
+  }
+
+  public async releaseLock(key: string, owner: string) {
+    if (this.locks.get(key)?.owner === owner) this.locks.delete(key);
+  }
+}
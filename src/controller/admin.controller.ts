@@ -0,0 +1,270 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { gameService } from "../service/service";
+import { ConflictError } from "../service/errors";
+import { roomRegistry } from "../game/room.registry";
+import { gameConfigService } from "../service/game.config.service";
+import { parseDate, parsePagination } from "./helpers";
+import { parseDifficultyPlan } from "../game/difficulty";
+import { requireCategory } from "../game/categories";
+import { parseScoringPolicy } from "../game/scoring";
+
+class AdminController {
+  private readonly service = gameService;
+
+  public listWithdrawals = async (req: Request, res: Response) => {
+    try {
+      const { status, userId, from, to } = req.query as Record<string, string>;
+      const { page, limit } = parsePagination(req);
+
+      const response = await this.service.listWithdrawals({
+        status,
+        userId: userId ? new Types.ObjectId(userId) : undefined,
+        from: parseDate(from),
+        to: parseDate(to),
+        page,
+        limit,
+      });
+
+      return res.status(200).json({
+        message: "withdrawals",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error listing withdrawals",
+        error: error.message,
+      });
+    }
+  };
+
+  public approveWithdrawal = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.updateWithdrawalStatus(
+        new Types.ObjectId(req.params.id),
+        "approved",
+        new Types.ObjectId(req.auth!.userId)
+      );
+
+      return res.status(200).json({
+        message: "Withdrawal approved",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error approving withdrawal",
+        error: error.message,
+      });
+    }
+  };
+
+  public rejectWithdrawal = async (req: Request, res: Response) => {
+    try {
+      const { reason } = req.body as { reason: string };
+      const response = await this.service.updateWithdrawalStatus(
+        new Types.ObjectId(req.params.id),
+        "rejected",
+        new Types.ObjectId(req.auth!.userId),
+        reason
+      );
+
+      return res.status(200).json({
+        message: "Withdrawal rejected and balance refunded",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error rejecting withdrawal",
+        error: error.message,
+      });
+    }
+  };
+
+  public bulkUpdateWithdrawals = async (req: Request, res: Response) => {
+    try {
+      const { ids, action, reason } = req.body as {
+        ids: string[];
+        action: "approve" | "reject";
+        reason?: string;
+      };
+
+      if (!Array.isArray(ids) || ids.length === 0) {
+        throw new Error("ids must be a non-empty array");
+      }
+      if (action !== "approve" && action !== "reject") {
+        throw new Error("action must be approve or reject");
+      }
+
+      const results = await this.service.bulkUpdateWithdrawalStatus(
+        ids.map((id) => new Types.ObjectId(id)),
+        action === "approve" ? "approved" : "rejected",
+        new Types.ObjectId(req.auth!.userId),
+        reason
+      );
+
+      return res.status(200).json({
+        message: "Bulk withdrawal update finished",
+        data: results,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error updating withdrawals",
+        error: error.message,
+      });
+    }
+  };
+
+  public getWithdrawalAudit = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.getWithdrawalAudit(
+        new Types.ObjectId(req.params.id)
+      );
+
+      return res.status(200).json({
+        message: "withdrawal audit trail",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching audit trail",
+        error: error.message,
+      });
+    }
+  };
+
+  public createRoom = async (req: Request, res: Response) => {
+    try {
+      const {
+        name,
+        description,
+        categories,
+        entryTokens,
+        rewardMultiplier,
+        maxAttempts,
+        rakePercent,
+        maxTypos,
+        difficulty,
+        scoring,
+      } = req.body as {
+        name: string;
+        description?: string;
+        categories?: string[];
+        entryTokens?: number;
+        rewardMultiplier?: number;
+        maxAttempts?: number;
+        rakePercent?: number;
+        maxTypos?: number;
+        difficulty?: unknown;
+        scoring?: unknown;
+      };
+
+      if (!name) throw new Error("name is required");
+      if (categories !== undefined && !Array.isArray(categories)) {
+        throw new Error("categories must be an array");
+      }
+      // 0 makes a free room
+      if (
+        entryTokens !== undefined &&
+        (!Number.isInteger(entryTokens) || entryTokens < 0)
+      ) {
+        throw new Error("entryTokens must be a whole number, 0 or more");
+      }
+      if (rewardMultiplier !== undefined && !(Number(rewardMultiplier) > 0)) {
+        throw new Error("rewardMultiplier must be greater than 0");
+      }
+      if (
+        maxAttempts !== undefined &&
+        (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 10)
+      ) {
+        throw new Error("maxAttempts must be a whole number from 1 to 10");
+      }
+      if (
+        rakePercent !== undefined &&
+        !(Number(rakePercent) >= 0 && Number(rakePercent) <= 100)
+      ) {
+        throw new Error("rakePercent must be between 0 and 100");
+      }
+      if (
+        maxTypos !== undefined &&
+        (!Number.isInteger(maxTypos) || maxTypos < 0 || maxTypos > 5)
+      ) {
+        throw new Error("maxTypos must be a whole number from 0 to 5");
+      }
+
+      const room = roomRegistry.create({
+        name,
+        ...(description && { description }),
+        ...(categories && { categories: categories.map(requireCategory) }),
+        ...(entryTokens !== undefined && { entryTokens }),
+        ...(rewardMultiplier && { rewardMultiplier: Number(rewardMultiplier) }),
+        ...(maxAttempts && { maxAttempts }),
+        ...(rakePercent !== undefined && { rakePercent: Number(rakePercent) }),
+        ...(maxTypos !== undefined && { answerMatching: { maxTypos } }),
+        ...(difficulty !== undefined && {
+          difficulty: parseDifficultyPlan(difficulty),
+        }),
+        ...(scoring !== undefined && { scoring: parseScoringPolicy(scoring) }),
+      });
+
+      return res.status(201).json({
+        message: "Room created",
+        data: room.summary(),
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error creating room",
+        error: error.message,
+      });
+    }
+  };
+
+  public removeRoom = async (req: Request, res: Response) => {
+    try {
+      roomRegistry.remove(req.params.name);
+      return res.status(200).json({ message: "Room closed" });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error closing room",
+        error: error.message,
+      });
+    }
+  };
+
+  public getPickARowConfig = async (req: Request, res: Response) => {
+    try {
+      const config = await gameConfigService.getPickARowConfig();
+      return res.status(200).json({
+        message: "pick a row config",
+        data: {
+          ...config,
+          expected_return: gameConfigService.expectedReturn(config),
+        },
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching config",
+        error: error.message,
+      });
+    }
+  };
+
+  public updatePickARowConfig = async (req: Request, res: Response) => {
+    try {
+      const response = await gameConfigService.updatePickARowConfig(
+        req.body ?? {},
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res.status(200).json({
+        message: "Pick a Row config updated",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error updating config",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const adminController = new AdminController();
@@ -0,0 +1,24 @@
+import { Request, Response } from "express";
+import { categoryService } from "../service/category.service";
+
+class CategoryController {
+  private readonly service = categoryService;
+
+  /**
+   * The canonical categories with question counts, for room pickers and
+   * icons on the client
+   */
+  public listCategories = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.list();
+      return res.status(200).json({ message: "categories", data: response });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching categories",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const categoryController = new CategoryController();
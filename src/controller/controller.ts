@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
 import { gameService } from "../service/service";
 import { Types } from "mongoose";
+import { AuthError, ConflictError } from "../service/errors";
+import { authService } from "../service/auth.service";
+import { generationService } from "../service/generation.service";
 
 class Controller {
   private readonly service = gameService;
@@ -34,6 +37,25 @@ class Controller {
     }
   };
 
+  public refreshToken = async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body as { refreshToken: string };
+      if (!refreshToken) throw new AuthError("Missing refresh token");
+
+      const response = await authService.refresh(refreshToken);
+
+      return res.status(200).json({
+        message: "Token refreshed",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(error instanceof AuthError ? error.status : 500).json({
+        message: "Error refreshing token",
+        error: error.message,
+      });
+    }
+  };
+
   public getAllUsers = async (req: Request, res: Response) => {
     try {
       const response = await this.service.getAllUsers();
@@ -51,15 +73,25 @@ class Controller {
 
   public buyToken = async (req: Request, res: Response) => {
     try {
-      const { user_id, no_of_token } = req.body;
-      const response = await this.service.buyToken(user_id, no_of_token);
+      const { no_of_token } = req.body;
+      if (!Number.isInteger(no_of_token) || no_of_token <= 0) {
+        return res.status(400).json({
+          message: "Error buying tokens",
+          error: "no_of_token must be a positive integer",
+        });
+      }
+
+      const response = await this.service.buyToken(
+        new Types.ObjectId(req.auth!.userId),
+        no_of_token
+      );
 
       return res.status(200).json({
         message: "tokens purchased successfully",
         data: response,
       });
     } catch (error: any) {
-      return res.status(500).json({
+      return res.status(error instanceof ConflictError ? 409 : 500).json({
         message: "Error buying tokens",
         error: error.message,
       });
@@ -85,9 +117,8 @@ class Controller {
 
   public getTokenAndBalance = async (req: Request, res: Response) => {
     try {
-      const { user_id } = req.params;
       const response = await this.service.getTokenAndBalance(
-        new Types.ObjectId(user_id)
+        new Types.ObjectId(req.auth!.userId)
       );
 
       return res.status(200).json({
@@ -104,9 +135,9 @@ class Controller {
 
   public withdrawRequest = async (req: Request, res: Response) => {
     try {
-      const { userId, amount, method } = req.body;
+      const { amount, method } = req.body;
       const response = await this.service.requestWithdrawal(
-        new Types.ObjectId(userId),
+        new Types.ObjectId(req.auth!.userId),
         amount,
         method
       );
@@ -116,7 +147,7 @@ class Controller {
       });
     } catch (error: any) {
       console.log(error);
-      return res.status(400).json({
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
         message: "Error initiating withdrawal",
         error: error.message,
       });
@@ -125,10 +156,10 @@ class Controller {
 
   public purchaseTokensWithBalance = async (req: Request, res: Response) => {
     try {
-      const { userId, tokensToBuy } = req.body;
+      const { tokensToBuy } = req.body;
 
       const response = await this.service.purchaseTokensWithBalance(
-        new Types.ObjectId(userId),
+        new Types.ObjectId(req.auth!.userId),
         tokensToBuy
       );
 
@@ -138,20 +169,23 @@ class Controller {
       });
     } catch (error: any) {
       console.error(error);
-      return res.status(400).json({
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
         message: "Error purchasing tokens",
         error: error.message,
       });
     }
   };
 
+  /**
+   * Queues a batch (or returns the one already queued); see
+   * GET /admin/jobs/:id for progress
+   */
   public generateQuestions = async (req: Request, res: Response) => {
     try {
-      const questions = await this.service.generateQuestionsFromAI(50);
-      return res.status(201).json({
-        message: "Questions generated successfully",
-        count: questions.length,
-        data: questions,
+      const job = await generationService.enqueue();
+      return res.status(202).json({
+        message: "Question generation queued",
+        data: job,
       });
     } catch (err: any) {
       res.status(500).json({
@@ -160,20 +194,6 @@ class Controller {
       });
     }
   };
-
-  // public async updateStatus(req: Request, res: Response) {
-  //   try {
-  //     const { status } = req.body;
-  //     const withdrawal = await this.service.updateWithdrawalStatus(
-  //       new Types.ObjectId(req.params.id),
-  //       status
-  //     );
-  //     return res.status(200).json({ success: true, withdrawal });
-  //   } catch (err: any) {
-  //     console.log(err);
-  //     return res.status(400).json({ success: false, message: err.message });
-  //   }
-  // }
 }
 
 export const controller = new Controller();
@@ -0,0 +1,78 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@]/;
+
+/**
+ * Minimal RFC 4180 CSV: quoted fields, escaped quotes, CRLF or LF rows.
+ * The first row is the header.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, ""); // Excel BOM
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') quoted = true;
+    else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += char;
+  }
+  if (quoted) throw new Error("Unterminated quoted field in CSV");
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((c) => c.trim()));
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+
+  // Undo the formula guard toCsv adds, so exports import back unchanged
+  const unguard = (cell = "") =>
+    cell.startsWith("'") && FORMULA_START.test(cell.slice(1))
+      ? cell.slice(1)
+      : cell;
+
+  return body.map((cells) =>
+    Object.fromEntries(columns.map((c, i) => [c, unguard(cells[i])]))
+  );
+};
+
+const escapeCell = (value: unknown) => {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : value instanceof Date
+      ? value.toISOString()
+      : String(value);
+  const safe = FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: Record<string, unknown>[], columns: string[]) =>
+  [
+    columns.join(","),
+    ...rows.map((r) => columns.map((c) => escapeCell(r[c])).join(",")),
+  ].join("\r\n");
@@ -0,0 +1,41 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { duelService } from "../service/duel.service";
+import { parsePagination } from "./helpers";
+
+class DuelController {
+  private readonly service = duelService;
+
+  public listMyDuels = async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = parsePagination(req);
+      const response = await this.service.listForUser(
+        new Types.ObjectId(req.auth!.userId),
+        page,
+        limit
+      );
+      return res.status(200).json({ message: "duels", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error listing duels",
+        error: error.message,
+      });
+    }
+  };
+
+  public getDuel = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.get(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({ message: "duel", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error fetching duel",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const duelController = new DuelController();
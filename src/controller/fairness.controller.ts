@@ -0,0 +1,105 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { fairnessService } from "../service/fairness.service";
+
+class FairnessController {
+  private readonly service = fairnessService;
+
+  public getActiveSeed = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.getActiveSeed(
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res.status(200).json({
+        message: "active server seed commitment",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching seed",
+        error: error.message,
+      });
+    }
+  };
+
+  public rotateSeed = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.rotate(
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res.status(200).json({
+        message: "Server seed revealed and rotated",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error rotating seed",
+        error: error.message,
+      });
+    }
+  };
+
+  public listSeeds = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.listSeeds(
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res.status(200).json({
+        message: "server seeds",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error listing seeds",
+        error: error.message,
+      });
+    }
+  };
+
+  public verify = async (req: Request, res: Response) => {
+    try {
+      const { serverSeed, clientSeed, nonce, rows } = req.query as Record<
+        string,
+        string
+      >;
+      if (!serverSeed || !clientSeed || !nonce) {
+        throw new Error("serverSeed, clientSeed and nonce are required");
+      }
+
+      const response = this.service.verify(
+        serverSeed,
+        clientSeed,
+        Number(nonce),
+        Number(rows) || 6
+      );
+      return res.status(200).json({
+        message: "recomputed result",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error verifying result",
+        error: error.message,
+      });
+    }
+  };
+
+  public verifyPlay = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.verifyPlay(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({
+        message: response.valid ? "play verified" : "play does NOT verify",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error verifying play",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const fairnessController = new FairnessController();
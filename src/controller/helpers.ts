@@ -0,0 +1,13 @@
+import { Request } from "express";
+
+export const parseDate = (value: unknown) => {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// ?page=&limit= with sane bounds
+export const parsePagination = (req: Request, maxLimit: number = 100) => ({
+  page: Math.max(Number(req.query.page) || 1, 1),
+  limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), maxLimit),
+});
@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { historyService, HistoryGame } from "../service/history.service";
+import { parseDate, parsePagination } from "./helpers";
+
+const GAMES: HistoryGame[] = ["trivia", "pick-a-row"];
+
+class HistoryController {
+  private readonly service = historyService;
+
+  public getUserHistory = async (req: Request, res: Response) => {
+    try {
+      const { game, from, to } = req.query as Record<string, string>;
+      if (game && !GAMES.includes(game as HistoryGame)) {
+        return res.status(400).json({
+          message: `game must be one of: ${GAMES.join(", ")}`,
+        });
+      }
+
+      const response = await this.service.getUserHistory(
+        new Types.ObjectId(req.params.user_id),
+        {
+          game: game as HistoryGame | undefined,
+          from: parseDate(from),
+          to: parseDate(to),
+          ...parsePagination(req),
+        }
+      );
+
+      return res.status(200).json({
+        message: "play history",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching history",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const historyController = new HistoryController();
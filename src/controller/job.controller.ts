@@ -0,0 +1,94 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { jobService, JobStatus } from "../service/job.service";
+import { generationService } from "../service/generation.service";
+import { parsePagination } from "./helpers";
+
+const STATUSES: JobStatus[] = ["queued", "running", "succeeded", "failed"];
+
+class JobController {
+  private readonly service = jobService;
+
+  public listJobs = async (req: Request, res: Response) => {
+    try {
+      const { status, type } = req.query as Record<string, string>;
+      if (status && !STATUSES.includes(status as JobStatus)) {
+        throw new Error(`status must be one of ${STATUSES.join(", ")}`);
+      }
+      const response = await this.service.list({
+        status: status as JobStatus | undefined,
+        type,
+        ...parsePagination(req),
+      });
+      return res.status(200).json({ message: "jobs", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error listing jobs",
+        error: error.message,
+      });
+    }
+  };
+
+  public getJob = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.get(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({ message: "job", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error fetching job",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Body { count?, categories? }; responds as soon as the job is queued
+   */
+  public enqueueGeneration = async (req: Request, res: Response) => {
+    try {
+      const { count, categories } = (req.body ?? {}) as {
+        count?: number;
+        categories?: string[];
+      };
+      if (categories !== undefined && !Array.isArray(categories)) {
+        throw new Error("categories must be an array");
+      }
+
+      const job = await generationService.enqueue({
+        count,
+        categories,
+        requestedBy: new Types.ObjectId(req.auth!.userId),
+      });
+      return res
+        .status(202)
+        .json({ message: "Question generation queued", data: job });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error queueing question generation",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Check the bank now and queue a batch if fresh questions are low
+   */
+  public topUp = async (req: Request, res: Response) => {
+    try {
+      const response = await generationService.topUp();
+      return res.status(response.job ? 202 : 200).json({
+        message: response.job ? "Top-up queued" : "Bank is stocked",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error checking question bank",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const jobController = new JobController();
@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ledgerService } from "../service/ledger.service";
+import { parsePagination } from "./helpers";
+
+class LedgerController {
+  private readonly service = ledgerService;
+
+  public getUserLedger = async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = parsePagination(req);
+
+      const response = await this.service.getUserHistory(
+        new Types.ObjectId(req.auth!.userId),
+        page,
+        limit
+      );
+
+      return res.status(200).json({
+        message: "ledger entries",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error fetching ledger",
+        error: error.message,
+      });
+    }
+  };
+
+  public reconcileUser = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.reconcileUser(
+        new Types.ObjectId(req.auth!.userId)
+      );
+
+      return res.status(200).json({
+        message: response.balanced
+          ? "ledger matches stored balances"
+          : "ledger drift detected",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error reconciling ledger",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const ledgerController = new LedgerController();
@@ -0,0 +1,344 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import {
+  QuestionFilters,
+  QuestionStatus,
+  questionService,
+} from "../service/question.service";
+import { rotationService } from "../service/rotation.service";
+import {
+  ingestionService,
+  QuarantineStatus,
+} from "../service/ingestion.service";
+import { ConflictError } from "../service/errors";
+import { parseCsv, toCsv } from "./csv";
+import { parsePagination } from "./helpers";
+
+// List columns are joined with "|" in CSV
+const LIST_SEPARATOR = "|";
+const CSV_COLUMNS = [
+  "question",
+  "answer",
+  "acceptable_answers",
+  "type",
+  "options",
+  "category",
+  "difficulty",
+  "reward_amount",
+];
+const EXPORT_COLUMNS = [
+  "_id",
+  ...CSV_COLUMNS,
+  "used",
+  "answered",
+  "retired",
+  "createdAt",
+];
+const STATUSES: QuestionStatus[] = ["fresh", "used", "answered", "retired"];
+const QUARANTINE_STATUSES: QuarantineStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+];
+
+const parseFilters = (req: Request): QuestionFilters => {
+  const { search, category, difficulty, type, status } = req.query as Record<
+    string,
+    string
+  >;
+  if (status && !STATUSES.includes(status as QuestionStatus)) {
+    throw new Error(`status must be one of ${STATUSES.join(", ")}`);
+  }
+  return {
+    search,
+    category,
+    difficulty,
+    type,
+    status: status as QuestionStatus | undefined,
+  };
+};
+
+// CSV cells are all strings: split lists, drop blanks, parse numbers
+const fromCsvRow = (row: Record<string, string>) => {
+  const list = (value?: string) =>
+    value
+      ? value
+          .split(LIST_SEPARATOR)
+          .map((v) => v.trim())
+          .filter(Boolean)
+      : undefined;
+  const blank = (value?: string) => (value?.trim() ? value.trim() : undefined);
+
+  return {
+    question: row.question,
+    answer: row.answer,
+    acceptable_answers: list(row.acceptable_answers),
+    type: blank(row.type),
+    options: list(row.options),
+    category: blank(row.category),
+    difficulty: blank(row.difficulty),
+    reward_amount: blank(row.reward_amount)
+      ? Number(row.reward_amount)
+      : undefined,
+  };
+};
+
+class QuestionController {
+  private readonly service = questionService;
+
+  public listQuestions = async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = parsePagination(req);
+      const response = await this.service.list({
+        ...parseFilters(req),
+        page,
+        limit,
+      });
+
+      return res.status(200).json({ message: "questions", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error listing questions",
+        error: error.message,
+      });
+    }
+  };
+
+  public getQuestion = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.get(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({ message: "question", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error fetching question",
+        error: error.message,
+      });
+    }
+  };
+
+  public createQuestion = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.create(req.body);
+      return res
+        .status(201)
+        .json({ message: "Question created", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error creating question",
+        error: error.message,
+      });
+    }
+  };
+
+  public updateQuestion = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.update(
+        new Types.ObjectId(req.params.id),
+        req.body ?? {}
+      );
+      return res
+        .status(200)
+        .json({ message: "Question updated", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error updating question",
+        error: error.message,
+      });
+    }
+  };
+
+  public retireQuestion = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.retire(
+        new Types.ObjectId(req.params.id)
+      );
+      return res
+        .status(200)
+        .json({ message: "Question retired", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error retiring question",
+        error: error.message,
+      });
+    }
+  };
+
+  public restoreQuestion = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.restore(
+        new Types.ObjectId(req.params.id)
+      );
+      return res
+        .status(200)
+        .json({ message: "Question restored", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error restoring question",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * JSON body { questions: [...] } or a text/csv body; ?dryRun=true only
+   * returns the report
+   */
+  public importQuestions = async (req: Request, res: Response) => {
+    try {
+      let rows: unknown[];
+      if (req.is("text/csv")) {
+        if (typeof req.body !== "string") throw new Error("Empty CSV body");
+        rows = parseCsv(req.body).map(fromCsvRow);
+      } else {
+        const { questions } = (req.body ?? {}) as { questions?: unknown };
+        if (!Array.isArray(questions)) {
+          throw new Error("questions must be an array");
+        }
+        rows = questions;
+      }
+      if (rows.length === 0) throw new Error("No rows to import");
+
+      const report = await this.service.importQuestions(rows, {
+        dryRun: req.query.dryRun === "true",
+      });
+
+      return res.status(report.dryRun ? 200 : 201).json({
+        message: report.dryRun ? "Import checked" : "Import finished",
+        data: report,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error importing questions",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Fresh / askable / cooling-down counts per category
+   */
+  public bankHealth = async (req: Request, res: Response) => {
+    try {
+      const cooldownDays = Number(req.query.cooldownDays);
+      const response = await rotationService.bankHealth(
+        cooldownDays >= 0 && req.query.cooldownDays !== undefined
+          ? { cooldownDays }
+          : {}
+      );
+      return res.status(200).json({ message: "bank health", data: response });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error computing bank health",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Generated questions held back by the ingestion checks; ?status=pending
+   * for the review queue
+   */
+  public listQuarantine = async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as QuarantineStatus | undefined;
+      if (status && !QUARANTINE_STATUSES.includes(status)) {
+        throw new Error(
+          `status must be one of ${QUARANTINE_STATUSES.join(", ")}`
+        );
+      }
+      const response = await ingestionService.listQuarantine({
+        status,
+        ...parsePagination(req),
+      });
+      return res
+        .status(200)
+        .json({ message: "quarantined questions", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error listing quarantined questions",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Body fields, if any, are applied on top of the quarantined question
+   */
+  public approveQuarantined = async (req: Request, res: Response) => {
+    try {
+      const response = await ingestionService.approve(
+        new Types.ObjectId(req.params.id),
+        new Types.ObjectId(req.auth!.userId),
+        req.body ?? {}
+      );
+      return res
+        .status(201)
+        .json({ message: "Question approved", data: response });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error approving question",
+        error: error.message,
+      });
+    }
+  };
+
+  public rejectQuarantined = async (req: Request, res: Response) => {
+    try {
+      const response = await ingestionService.reject(
+        new Types.ObjectId(req.params.id),
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res
+        .status(200)
+        .json({ message: "Question rejected", data: response });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error rejecting question",
+        error: error.message,
+      });
+    }
+  };
+
+  public exportQuestions = async (req: Request, res: Response) => {
+    try {
+      const format = (req.query.format as string) || "json";
+      if (format !== "json" && format !== "csv") {
+        throw new Error("format must be json or csv");
+      }
+
+      const questions = await this.service.exportQuestions(parseFilters(req));
+
+      // Same { questions } shape the JSON import takes
+      if (format === "json") {
+        res.setHeader(
+          "Content-Disposition",
+          'attachment; filename="questions.json"'
+        );
+        return res.status(200).json({ questions });
+      }
+
+      const rows = questions.map((q) => ({
+        ...q,
+        acceptable_answers: (q.acceptable_answers ?? []).join(LIST_SEPARATOR),
+        options: (q.options ?? []).join(LIST_SEPARATOR),
+        answered: !!q.answered_by,
+        retired: !!q.retired,
+      }));
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        'attachment; filename="questions.csv"'
+      );
+      return res.status(200).send(toCsv(rows, EXPORT_COLUMNS));
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error exporting questions",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const questionController = new QuestionController();
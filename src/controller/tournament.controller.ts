@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import {
+  tournamentService,
+  TournamentStatus,
+} from "../service/tournament.service";
+import { ConflictError } from "../service/errors";
+import { parsePagination } from "./helpers";
+
+const STATUSES: TournamentStatus[] = [
+  "scheduled",
+  "running",
+  "settling",
+  "finished",
+  "cancelled",
+];
+
+class TournamentController {
+  private readonly service = tournamentService;
+
+  public listTournaments = async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !STATUSES.includes(status as TournamentStatus)) {
+        throw new Error(`status must be one of ${STATUSES.join(", ")}`);
+      }
+      const response = await this.service.list({
+        status: status as TournamentStatus | undefined,
+        ...parsePagination(req),
+      });
+      return res.status(200).json({ message: "tournaments", data: response });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error listing tournaments",
+        error: error.message,
+      });
+    }
+  };
+
+  public getTournament = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.get(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({ message: "tournament", data: response });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error fetching tournament",
+        error: error.message,
+      });
+    }
+  };
+
+  public register = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.register(
+        new Types.ObjectId(req.params.id),
+        new Types.ObjectId(req.auth!.userId),
+        req.auth!.username
+      );
+      return res.status(200).json({
+        message: "Registered for tournament",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error registering for tournament",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Body { name, startsAt, entryTokens?, rounds, categories?, prizes }
+   */
+  public createTournament = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.create(
+        req.body,
+        new Types.ObjectId(req.auth!.userId)
+      );
+      return res.status(201).json({
+        message: "Tournament scheduled",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error scheduling tournament",
+        error: error.message,
+      });
+    }
+  };
+
+  public cancelTournament = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.cancel(
+        new Types.ObjectId(req.params.id)
+      );
+      return res.status(200).json({
+        message: "Tournament cancelled, entries refunded",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(error instanceof ConflictError ? 409 : 400).json({
+        message: "Error cancelling tournament",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const tournamentController = new TournamentController();
@@ -0,0 +1,103 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { triviaService } from "../service/trivia.service";
+import { roomRegistry } from "../game/room.registry";
+import { parseDate, parsePagination } from "./helpers";
+
+class TriviaController {
+  private readonly service = triviaService;
+
+  public getRound = async (req: Request, res: Response) => {
+    try {
+      const response = await this.service.getRound(
+        new Types.ObjectId(req.params.id)
+      );
+
+      return res.status(200).json({
+        message: "round result",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(404).json({
+        message: "Error fetching round",
+        error: error.message,
+      });
+    }
+  };
+
+  /**
+   * Same as the room:create socket event. Body { questions?, categories?,
+   * stake? }; join with the returned invite code.
+   */
+  public createPrivateRoom = async (req: Request, res: Response) => {
+    try {
+      const { questions, categories, stake } = (req.body ?? {}) as Record<
+        string,
+        unknown
+      >;
+      const room = await roomRegistry.createPrivate(req.auth!.userId, {
+        questions,
+        categories,
+        stake,
+      });
+
+      return res.status(201).json({
+        message: "Private room created",
+        data: {
+          ...room.summary(),
+          inviteCode: room.config.private!.inviteCode,
+        },
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        message: "Error creating room",
+        error: error.message,
+      });
+    }
+  };
+
+  // Players see the rounds they took part in, admins can filter by anyone
+  public listMyRounds = async (req: Request, res: Response) =>
+    this.listRounds(req, res, new Types.ObjectId(req.auth!.userId));
+
+  public listAllRounds = async (req: Request, res: Response) => {
+    const { userId } = req.query as Record<string, string>;
+    return this.listRounds(
+      req,
+      res,
+      userId ? new Types.ObjectId(userId) : undefined
+    );
+  };
+
+  private listRounds = async (
+    req: Request,
+    res: Response,
+    userId?: Types.ObjectId
+  ) => {
+    try {
+      const { room, from, to } = req.query as Record<string, string>;
+      const { page, limit } = parsePagination(req);
+
+      const response = await this.service.listRounds({
+        room,
+        userId,
+        from: parseDate(from),
+        to: parseDate(to),
+        page,
+        limit,
+      });
+
+      return res.status(200).json({
+        message: "round results",
+        data: response,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        message: "Error listing rounds",
+        error: error.message,
+      });
+    }
+  };
+}
+
+export const triviaController = new TriviaController();
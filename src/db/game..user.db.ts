@@ -1,5 +1,5 @@
 import { Schema } from "mongoose";
-import { GameUserInterface } from "../interfaces/interface";
+import { GameUserInterface, UserRole } from "../interfaces/interface";
 import { model } from "mongoose";
 
 const gameUserSchema = new Schema<GameUserInterface>({
@@ -10,8 +10,14 @@ const gameUserSchema = new Schema<GameUserInterface>({
   exp: { type: Number, default: 0 },
   referral_code: { type: String },
   no_of_referrals: { type: Number, default: 0 },
-  passkey: { type: String },
+  // bcrypt hash, only loaded where it is checked
+  passkey: { type: String, select: false },
   referred_by: { type: Schema.Types.ObjectId, ref: "GameUser", default: null },
+  role: {
+    type: String,
+    enum: Object.values(UserRole),
+    default: UserRole.USER,
+  },
 });
 
 export const GameUserRepository = model<GameUserInterface>(
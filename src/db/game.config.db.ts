@@ -0,0 +1,26 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IPickARowConfig } from "../interfaces/interface";
+
+const PickARowConfigSchema: Schema<IPickARowConfig> = new Schema(
+  {
+    game: {
+      type: String,
+      enum: ["pick-a-row"],
+      default: "pick-a-row",
+      unique: true,
+    },
+    rows: { type: Number, required: true },
+    payout_multiplier: { type: Number, required: true },
+    min_stake: { type: Number, required: true },
+    max_stake: { type: Number, required: true },
+    daily_loss_limit: { type: Number, required: true },
+    rtp_min: { type: Number, required: true },
+    rtp_max: { type: Number, required: true },
+    updated_by: { type: Schema.Types.ObjectId, ref: "GameUser", default: null },
+  },
+  { timestamps: true, collection: "gameconfigs" }
+);
+
+export const PickARowConfigRepository: Model<IPickARowConfig> =
+  mongoose.models.PickARowConfig ||
+  mongoose.model<IPickARowConfig>("PickARowConfig", PickARowConfigSchema);
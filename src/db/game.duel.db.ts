@@ -0,0 +1,37 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IDuel } from "../interfaces/interface";
+
+const PlayerSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+    exp: { type: Number, default: 0 },
+    wins: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const DuelSchema: Schema<IDuel> = new Schema(
+  {
+    room: { type: String, required: true, unique: true },
+    players: { type: [PlayerSchema], default: [] },
+    best_of: { type: Number, required: true },
+    stake: { type: Number, default: 0 },
+    pot: { type: Number, default: 0 },
+    status: {
+      type: String,
+      enum: ["running", "won", "draw", "forfeit", "cancelled"],
+      default: "running",
+    },
+    winner_id: { type: Schema.Types.ObjectId, ref: "GameUser", default: null },
+    started_at: { type: Date, default: null },
+    finished_at: { type: Date, default: null },
+    settled_at: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+DuelSchema.index({ "players.user_id": 1, createdAt: -1 });
+
+export const DuelRepository: Model<IDuel> =
+  mongoose.models.Duel || mongoose.model<IDuel>("Duel", DuelSchema);
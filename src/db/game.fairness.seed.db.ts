@@ -0,0 +1,25 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IFairnessSeed } from "../interfaces/interface";
+
+const FairnessSeedSchema: Schema<IFairnessSeed> = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    server_seed: { type: String, required: true, select: false },
+    server_seed_hash: { type: String, required: true },
+    nonce: { type: Number, default: 0 },
+    active: { type: Boolean, default: true },
+    revealed_at: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// One active (unrevealed) seed per user
+FairnessSeedSchema.index(
+  { user_id: 1, active: 1 },
+  { unique: true, partialFilterExpression: { active: true } }
+);
+FairnessSeedSchema.index({ server_seed_hash: 1 });
+
+export const FairnessSeedRepository: Model<IFairnessSeed> =
+  mongoose.models.FairnessSeed ||
+  mongoose.model<IFairnessSeed>("FairnessSeed", FairnessSeedSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IJob } from "../interfaces/interface";
+
+const JobSchema: Schema<IJob> = new Schema(
+  {
+    type: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ["queued", "running", "succeeded", "failed"],
+      default: "queued",
+    },
+    attempts: { type: Number, default: 0 },
+    max_attempts: { type: Number, default: 5 },
+    run_at: { type: Date, default: Date.now },
+    locked_by: { type: String, default: null },
+    locked_at: { type: Date, default: null },
+    last_error: { type: String, default: null },
+    result: { type: Schema.Types.Mixed, default: null },
+    dedupe_key: { type: String },
+    requested_by: {
+      type: Schema.Types.ObjectId,
+      ref: "GameUser",
+      default: null,
+    },
+    finished_at: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+JobSchema.index({ status: 1, run_at: 1 });
+JobSchema.index({ type: 1, createdAt: -1 });
+// Removed when the job finishes, so the key can be queued again
+JobSchema.index(
+  { dedupe_key: 1 },
+  { unique: true, partialFilterExpression: { dedupe_key: { $type: "string" } } }
+);
+
+export const JobRepository: Model<IJob> =
+  mongoose.models.Job || mongoose.model<IJob>("Job", JobSchema);
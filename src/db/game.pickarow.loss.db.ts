@@ -0,0 +1,21 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IPickARowDailyLoss } from "../interfaces/interface";
+
+const PickARowDailyLossSchema: Schema<IPickARowDailyLoss> = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    day: { type: String, required: true },
+    loss: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+// One counter per user per day, so a conditional upsert can't fork it
+PickARowDailyLossSchema.index({ user_id: 1, day: 1 }, { unique: true });
+
+export const PickARowDailyLossRepository: Model<IPickARowDailyLoss> =
+  mongoose.models.PickARowDailyLoss ||
+  mongoose.model<IPickARowDailyLoss>(
+    "PickARowDailyLoss",
+    PickARowDailyLossSchema
+  );
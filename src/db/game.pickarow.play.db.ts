@@ -0,0 +1,31 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IPickARowPlay } from "../interfaces/interface";
+
+const PickARowPlaySchema: Schema<IPickARowPlay> = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    stake_tokens: { type: Number, required: true },
+    user_row: { type: Number, required: true },
+    winning_row: { type: Number, required: true },
+    rows: { type: Number, required: true },
+    payout_multiplier: { type: Number, required: true },
+    won: { type: Boolean, required: true },
+    payout: { type: Number, default: 0 },
+    seed_id: {
+      type: Schema.Types.ObjectId,
+      ref: "FairnessSeed",
+      required: true,
+    },
+    server_seed_hash: { type: String, required: true },
+    client_seed: { type: String, required: true },
+    nonce: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+PickARowPlaySchema.index({ user_id: 1, createdAt: -1 });
+PickARowPlaySchema.index({ seed_id: 1, nonce: 1 }, { unique: true });
+
+export const PickARowPlayRepository: Model<IPickARowPlay> =
+  mongoose.models.PickARowPlay ||
+  mongoose.model<IPickARowPlay>("PickARowPlay", PickARowPlaySchema);
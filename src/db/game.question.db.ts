@@ -1,11 +1,31 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
-import { IQuestion } from "../interfaces/interface";
+import { IQuestion, QuestionType } from "../interfaces/interface";
+import { CATEGORY_IDS, DEFAULT_CATEGORY } from "../game/categories";
 
 const QuestionSchema: Schema<IQuestion> = new Schema(
   {
     question: { type: String, required: true },
     answer: { type: String, required: true },
-    category: { type: String, default: "general" },
+    acceptable_answers: { type: [String], default: [] },
+    type: {
+      type: String,
+      enum: Object.values(QuestionType),
+      default: QuestionType.FREE_TEXT,
+    },
+    options: {
+      type: [String],
+      default: [],
+      validate: {
+        // Choice questions must offer their own answer
+        validator: function (this: IQuestion, options: string[]) {
+          if (this.type === QuestionType.FREE_TEXT || !this.type) return true;
+          return options.length >= 2 && options.includes(this.answer);
+        },
+        message:
+          "Choice questions need at least 2 options including the answer",
+      },
+    },
+    category: { type: String, enum: CATEGORY_IDS, default: DEFAULT_CATEGORY },
     difficulty: {
       type: String,
       enum: ["easy", "medium", "hard"],
@@ -13,7 +33,12 @@ const QuestionSchema: Schema<IQuestion> = new Schema(
     },
     used: { type: Boolean, default: false },
     answered_by: { type: Schema.Types.ObjectId },
+    answered_at: { type: Date, default: null },
+    times_used: { type: Number, default: 0 },
+    last_used_at: { type: Date, default: null },
     reward_amount: { type: Number },
+    retired: { type: Boolean, default: false },
+    retired_at: { type: Date, default: null },
   },
   { timestamps: true }
 );
@@ -22,6 +47,7 @@ const QuestionSchema: Schema<IQuestion> = new Schema(
 QuestionSchema.index({ used: 1 });
 QuestionSchema.index({ category: 1, used: 1 });
 QuestionSchema.index({ difficulty: 1, used: 1 });
+QuestionSchema.index({ retired: 1, used: 1 });
 
 export const QuestionRepository: Model<IQuestion> =
   mongoose.models.Question ||
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IQuestionQuarantine } from "../interfaces/interface";
+
+const QuestionQuarantineSchema: Schema<IQuestionQuarantine> = new Schema(
+  {
+    source: { type: String, required: true },
+    raw: { type: Schema.Types.Mixed },
+    candidate: { type: Schema.Types.Mixed, default: null },
+    reasons: { type: [String], default: [] },
+    score: { type: Number, default: 0 },
+    similar_to: { type: Schema.Types.ObjectId, ref: "Question", default: null },
+    similarity: { type: Number, default: null },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    question_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Question",
+      default: null,
+    },
+    reviewed_by: {
+      type: Schema.Types.ObjectId,
+      ref: "GameUser",
+      default: null,
+    },
+    reviewed_at: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+QuestionQuarantineSchema.index({ status: 1, createdAt: -1 });
+
+export const QuestionQuarantineRepository: Model<IQuestionQuarantine> =
+  mongoose.models.QuestionQuarantine ||
+  mongoose.model<IQuestionQuarantine>(
+    "QuestionQuarantine",
+    QuestionQuarantineSchema
+  );
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ITournament } from "../interfaces/interface";
+
+const PlayerSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+    registered_at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const ScoreSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+    correct: { type: Boolean, required: true },
+    points: { type: Number, default: 0 },
+    response_ms: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const ResultSchema = new Schema(
+  {
+    round: { type: Number, required: true },
+    scores: { type: [ScoreSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const StandingSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+    place: { type: Number, required: true },
+    points: { type: Number, default: 0 },
+    correct: { type: Number, default: 0 },
+    prize: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const TournamentSchema: Schema<ITournament> = new Schema(
+  {
+    name: { type: String, required: true },
+    room: { type: String, required: true, unique: true },
+    starts_at: { type: Date, required: true },
+    entry_tokens: { type: Number, default: 0 },
+    rounds: { type: Number, required: true },
+    categories: { type: [String], default: [] },
+    prizes: { type: [Number], default: [] },
+    status: {
+      type: String,
+      enum: ["scheduled", "running", "settling", "finished", "cancelled"],
+      default: "scheduled",
+    },
+    settling_job: { type: Schema.Types.ObjectId, ref: "Job", default: null },
+    players: { type: [PlayerSchema], default: [] },
+    results: { type: [ResultSchema], default: [] },
+    standings: { type: [StandingSchema], default: [] },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: "GameUser",
+      default: null,
+    },
+    started_at: { type: Date, default: null },
+    ends_at: { type: Date, default: null },
+    finished_at: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+TournamentSchema.index({ status: 1, starts_at: 1 });
+TournamentSchema.index({ "players.user_id": 1 });
+
+export const TournamentRepository: Model<ITournament> =
+  mongoose.models.Tournament ||
+  mongoose.model<ITournament>("Tournament", TournamentSchema);
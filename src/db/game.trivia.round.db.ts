@@ -0,0 +1,82 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ITriviaRound } from "../interfaces/interface";
+
+const SubmissionSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+    answer: { type: String, required: true },
+    received_at: { type: Date, required: true },
+    sequence: { type: Number, required: true },
+    correct: { type: Boolean, required: true },
+    tokens_spent: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const ParticipantSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    username: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const PayoutSchema = new Schema(
+  {
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    amount: { type: Number, required: true },
+    points: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const PoolSchema = new Schema(
+  {
+    entries: { type: Number, required: true },
+    fees: { type: Number, required: true },
+    rake: { type: Number, required: true },
+    house: { type: Number, required: true },
+    total: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const TriviaRoundSchema: Schema<ITriviaRound> = new Schema(
+  {
+    room: { type: String, required: true },
+    round: { type: Number, required: true },
+    round_key: { type: String, default: null },
+    question_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Question",
+      default: null,
+    },
+    question: { type: String, required: true },
+    correct_answer: { type: String, required: true },
+    started_at: { type: Date, required: true },
+    ended_at: { type: Date, required: true },
+    participants: { type: [ParticipantSchema], default: [] },
+    submissions: { type: [SubmissionSchema], default: [] },
+    winner_id: { type: Schema.Types.ObjectId, ref: "GameUser", default: null },
+    winner_username: { type: String, default: null },
+    rule: { type: String, required: true },
+    tied_user_ids: { type: [Schema.Types.ObjectId], default: [] },
+    scoring: { type: String, default: "winner-takes-all" },
+    entry_tokens: { type: Number, default: 0 },
+    pool: { type: PoolSchema, default: null },
+    reward: { type: Number, default: 0 },
+    payouts: { type: [PayoutSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+TriviaRoundSchema.index({ room: 1, createdAt: -1 });
+TriviaRoundSchema.index({ "submissions.user_id": 1, createdAt: -1 });
+TriviaRoundSchema.index({ "participants.user_id": 1, createdAt: -1 });
+TriviaRoundSchema.index({ question_id: 1 });
+TriviaRoundSchema.index({ round_key: 1 });
+
+export const TriviaRoundRepository: Model<ITriviaRound> =
+  mongoose.models.TriviaRound ||
+  mongoose.model<ITriviaRound>("TriviaRound", TriviaRoundSchema);
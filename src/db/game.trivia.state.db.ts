@@ -0,0 +1,15 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ITriviaRoomState } from "../interfaces/interface";
+
+const TriviaRoomStateSchema: Schema<ITriviaRoomState> = new Schema(
+  {
+    room: { type: String, required: true, unique: true },
+    version: { type: Number, required: true },
+    state: { type: Schema.Types.Mixed, required: true },
+  },
+  { timestamps: true, minimize: false }
+);
+
+export const TriviaRoomStateRepository: Model<ITriviaRoomState> =
+  mongoose.models.TriviaRoomState ||
+  mongoose.model<ITriviaRoomState>("TriviaRoomState", TriviaRoomStateSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IWithdrawalAudit } from "../interfaces/interface";
+
+const statuses = ["pending", "approved", "rejected"];
+
+const WithdrawalAuditSchema: Schema<IWithdrawalAudit> = new Schema(
+  {
+    withdrawalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Withdrawal",
+      required: true,
+    },
+    actorId: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
+    previous_status: { type: String, enum: statuses, required: true },
+    new_status: { type: String, enum: statuses, required: true },
+    reason: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+WithdrawalAuditSchema.index({ withdrawalId: 1, createdAt: -1 });
+WithdrawalAuditSchema.index({ actorId: 1, createdAt: -1 });
+
+export const WithdrawalAuditRepository: Model<IWithdrawalAudit> =
+  mongoose.models.WithdrawalAudit ||
+  mongoose.model<IWithdrawalAudit>("WithdrawalAudit", WithdrawalAuditSchema);
@@ -11,11 +11,19 @@ const WithdrawalSchema: Schema<IWithdrawal> = new Schema(
       default: "pending",
     },
     method: { type: String, required: true },
+    reviewed_by: {
+      type: Schema.Types.ObjectId,
+      ref: "GameUser",
+      default: null,
+    },
+    reviewed_at: { type: Date, default: null },
+    rejection_reason: { type: String, default: null },
   },
   { timestamps: true }
 );
 
 WithdrawalSchema.index({ userId: 1, status: 1 });
+WithdrawalSchema.index({ status: 1, createdAt: -1 });
 
 export const WithdrawalRepository: Model<IWithdrawal> =
   mongoose.models.Withdrawal ||
@@ -0,0 +1,35 @@
+import { createClient } from "redis";
+import dotenv from "dotenv";
+dotenv.config();
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Connect the command and subscriber clients. Returns null when REDIS_URL
+ * is not set, in which case the server runs as a single instance.
+ */
+const connectRedis = async (): Promise<{
+  pub: RedisClient;
+  sub: RedisClient;
+} | null> => {
+  if (!process.env.REDIS_URL) {
+    console.log("ℹ️ REDIS_URL not set, running as a single instance");
+    return null;
+  }
+
+  try {
+    const pub = createClient({ url: process.env.REDIS_URL });
+    const sub = pub.duplicate();
+    pub.on("error", (err) => console.error("❌ Redis error:", err));
+    sub.on("error", (err) => console.error("❌ Redis error:", err));
+
+    await Promise.all([pub.connect(), sub.connect()]);
+    console.log("✅ Redis connected successfully");
+    return { pub, sub };
+  } catch (error) {
+    console.error("❌ Redis connection failed:", error);
+    process.exit(1);
+  }
+};
+
+export default connectRedis;
@@ -1,16 +1,42 @@
 import { Schema } from "mongoose";
-import { TransactionInterface } from "../interfaces/interface";
+import {
+  LedgerAsset,
+  LedgerReason,
+  TransactionInterface,
+} from "../interfaces/interface";
 import { model } from "mongoose";
 
+const ledgerEntrySchema = new Schema(
+  {
+    account: { type: String, required: true },
+    user_id: { type: Schema.Types.ObjectId, ref: "GameUser", default: null },
+    asset: { type: String, enum: Object.values(LedgerAsset), required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const transactionSchema = new Schema<TransactionInterface>(
   {
-    userId: { type: Schema.Types.ObjectId, ref: "GameUser", required: true },
-    tokensPurchased: { type: Number, required: true },
-    createdAt: { type: Date, default: Date.now },
+    reason: { type: String, enum: Object.values(LedgerReason), required: true },
+    reference_id: { type: String, default: null },
+    entries: { type: [ledgerEntrySchema], required: true },
+    metadata: { type: Schema.Types.Mixed },
   },
   { timestamps: true }
 );
 
+transactionSchema.index({ "entries.user_id": 1, createdAt: -1 });
+// A reference can only be posted once per reason, which is what makes
+// refunds and payouts safe to retry. Journals without one are exempt.
+transactionSchema.index(
+  { reason: 1, reference_id: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { reference_id: { $type: "string" } },
+  }
+);
+
 export const Transaction = model<TransactionInterface>(
   "Transaction",
   transactionSchema
@@ -0,0 +1,155 @@
+import { questions } from "../questions";
+import {
+  editDistance,
+  isCorrectAnswer,
+  matchesAnswer,
+  normalizeAnswer,
+  surname,
+} from "./answer.matcher";
+
+type SeedQuestion = (typeof questions)[number] & {
+  acceptable_answers?: string[];
+};
+const corpus = questions as SeedQuestion[];
+
+const accepted = (q: SeedQuestion) => [
+  q.answer,
+  ...(q.acceptable_answers ?? []),
+];
+
+describe("normalizeAnswer", () => {
+  it.each([
+    ["The Blue Whale", "blue whale"],
+    ["Brasília", "brasilia"],
+    ["J.D. Salinger", "j d salinger"],
+    ["Jeanne d'Arc", "jeanne d arc"],
+    ["Hydrogen & Oxygen", "hydrogen and oxygen"],
+    ["1,000", "1000"],
+    ["eleven", "11"],
+    ["three hundred and sixty six", "366"],
+    ["two hundred six", "206"],
+    ["one thousand nine hundred and fourteen", "1914"],
+    ["nineteen fourteen", "1914"],
+    ["twenty twenty four", "2024"],
+    ["nineteen sixty nine", "1969"],
+    ["one two", "1 2"],
+    ["apollo eleven", "apollo 11"],
+    ["rock and roll", "rock and roll"],
+  ])("%s → %s", (raw, expected) => {
+    expect(normalizeAnswer(raw)).toBe(expected);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts edits and gives up past the cap", () => {
+    expect(editDistance("canberra", "canbera")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("kitten", "sitting", 1)).toBe(2);
+  });
+});
+
+describe("surname", () => {
+  it.each([
+    ["Albert Einstein", "einstein"],
+    ["Vincent van Gogh", "van gogh"],
+    ["Leonardo da Vinci", "da vinci"],
+    ["J.D. Salinger", "salinger"],
+    ["William Henry Harrison", "harrison"],
+    ["Michelangelo", null],
+    ["Joan of Arc", null],
+    ["Hydrogen and Oxygen", null],
+  ])("%s → %s", (name, expected) => {
+    expect(surname(name)).toBe(expected);
+  });
+});
+
+describe("isCorrectAnswer", () => {
+  it("takes the surname for questions about a person", () => {
+    const question = {
+      question: "Who developed the theory of relativity?",
+      answer: "Albert Einstein",
+    };
+    expect(isCorrectAnswer("Einstein", question)).toBe(true);
+    expect(isCorrectAnswer("Einstin", question)).toBe(true);
+    expect(isCorrectAnswer("Albert", question)).toBe(false);
+
+    const painter = {
+      question: "Which painter is famous for cutting off part of his ear?",
+      answer: "Vincent van Gogh",
+    };
+    expect(isCorrectAnswer("Van Gogh", painter)).toBe(true);
+  });
+
+  it("only takes the surname when a person is asked for", () => {
+    const question = {
+      question: "What is the capital of Argentina?",
+      answer: "Buenos Aires",
+    };
+    expect(isCorrectAnswer("Aires", question)).toBe(false);
+  });
+
+  it("reads numbers in words", () => {
+    const year = {
+      question: "What year did World War I begin?",
+      answer: "1914",
+    };
+    expect(isCorrectAnswer("nineteen fourteen", year)).toBe(true);
+    expect(isCorrectAnswer("1915", year)).toBe(false);
+
+    const team = { question: "How many players?", answer: "11" };
+    expect(isCorrectAnswer("eleven", team)).toBe(true);
+  });
+
+  it("allows typos in proportion to length", () => {
+    expect(matchesAnswer("Canbera", ["Canberra"])).toBe(true);
+    expect(matchesAnswer("Cairo", ["Canberra"])).toBe(false);
+    // Too short to guess at
+    expect(matchesAnswer("Mers", ["Mars"])).toBe(false);
+    expect(matchesAnswer("Canbera", ["Canberra"], { maxTypos: 0 })).toBe(false);
+  });
+
+  it("only takes short aliases exactly", () => {
+    const currency = {
+      question: "What is the currency of Switzerland?",
+      answer: "Swiss Franc",
+      acceptable_answers: ["Franc"],
+    };
+    expect(isCorrectAnswer("Franc", currency)).toBe(true);
+    expect(isCorrectAnswer("Swiss Frank", currency)).toBe(true);
+    expect(isCorrectAnswer("France", currency)).toBe(false);
+  });
+});
+
+describe("seed question corpus", () => {
+  it.each(corpus.map((q) => [q.question, q] as const))(
+    "accepts the answers to %s",
+    (_, q) => {
+      for (const answer of accepted(q)) {
+        expect(isCorrectAnswer(answer, q)).toBe(true);
+        expect(isCorrectAnswer(answer.toUpperCase(), q)).toBe(true);
+        expect(isCorrectAnswer(`  the ${answer}!  `, q)).toBe(true);
+      }
+    }
+  );
+
+  it("rejects every other question's answers", () => {
+    const mistakes: string[] = [];
+    for (const q of corpus) {
+      const own = new Set(accepted(q).map(normalizeAnswer));
+      for (const other of corpus) {
+        // Same answer asked twice, or answers that overlap on purpose
+        if (accepted(other).some((a) => own.has(normalizeAnswer(a)))) continue;
+        const mistake = `"${other.answer}" for "${q.question}"`;
+        if (isCorrectAnswer(other.answer, q)) mistakes.push(mistake);
+      }
+    }
+    expect(mistakes).toEqual([]);
+  });
+
+  it("rejects empty and punctuation-only answers", () => {
+    for (const q of corpus) {
+      expect(isCorrectAnswer("", q)).toBe(false);
+      expect(isCorrectAnswer("?!", q)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Free-text answer matching. Both sides are normalised (case, accents,
+ * punctuation, articles, number words) and then compared exactly, and
+ * failing that within a small edit distance that scales with length.
+ * Questions asking for a person also accept the surname on its own.
+ */
+export type AnswerMatchOptions = {
+  maxTypos: number; // hard cap on edit distance
+  typoRatio: number; // allowed edits per character of the accepted answer
+  minTypoLength: number; // shorter answers must match exactly
+};
+
+export const DEFAULT_ANSWER_MATCH: AnswerMatchOptions = {
+  maxTypos: 2,
+  typoRatio: 0.2,
+  minTypoLength: 5,
+};
+
+const ARTICLES = new Set(["the", "a", "an"]);
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+  billion: 1000000000,
+};
+
+const isNumberWord = (word: string) =>
+  word in UNITS || word in TENS || word in SCALES;
+
+/**
+ * Read one number starting at words[start]; returns it and the index
+ * after it. Stops where a word can't extend it: after "nineteen" or
+ * "twenty four", another unit starts a new number.
+ */
+const readNumber = (words: string[], start: number): [number, number] => {
+  let total = 0;
+  let current = 0;
+  let i = start;
+
+  while (i < words.length) {
+    const word = words[i];
+    // "and" only belongs to the number when more number words follow
+    if (word === "and" && i > start && isNumberWord(words[i + 1] ?? "")) {
+      i++;
+      continue;
+    }
+    const below = current % 100; // the part after any "hundred"
+    if (word in UNITS) {
+      // Only a bare tens word takes a unit: "twenty four"
+      const unit = UNITS[word];
+      if (below !== 0 && !(below >= 20 && below % 10 === 0 && unit < 10)) break;
+      current += unit;
+    } else if (word in TENS) {
+      if (below !== 0) break;
+      current += TENS[word];
+    } else if (word === "hundred") {
+      current = (current || 1) * 100;
+    } else if (word in SCALES) {
+      total += (current || 1) * SCALES[word];
+      current = 0;
+    } else break;
+    i++;
+  }
+
+  return [total + current, i];
+};
+
+const isPair = (n: number) => n >= 10 && n < 100;
+
+/**
+ * Replace runs of number words with digits:
+ * "three hundred and sixty six" → "366". Two numbers from 10 to 99 in a
+ * row are read as a year: "nineteen fourteen" → "1914".
+ */
+const numberWordsToDigits = (words: string[]) => {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    if (!isNumberWord(words[i])) {
+      out.push(words[i++]);
+      continue;
+    }
+
+    const [first, next] = readNumber(words, i);
+    i = next;
+    if (isPair(first) && i < words.length && isNumberWord(words[i])) {
+      const [second, after] = readNumber(words, i);
+      if (isPair(second)) {
+        out.push(String(first * 100 + second));
+        i = after;
+        continue;
+      }
+    }
+    out.push(String(first));
+  }
+
+  return out;
+};
+
+export const normalizeAnswer = (value: string) => {
+  const words = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // accents
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1") // 1,000 → 1000
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter((w) => w && !ARTICLES.has(w));
+
+  return numberWordsToDigits(words).join(" ");
+};
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+export const editDistance = (a: string, b: string, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (accepted: string, options: AnswerMatchOptions) => {
+  // Numbers are right or wrong: "1914" must not accept "1915"
+  if (/\d/.test(accepted)) return 0;
+  if (accepted.length < options.minTypoLength) return 0;
+  return Math.min(
+    options.maxTypos,
+    Math.floor(accepted.length * options.typoRatio)
+  );
+};
+
+/**
+ * True when submitted matches any of the accepted answers
+ */
+export const matchesAnswer = (
+  submitted: string,
+  accepted: string[],
+  options: Partial<AnswerMatchOptions> = {}
+) => {
+  const opts = { ...DEFAULT_ANSWER_MATCH, ...options };
+  const answer = normalizeAnswer(submitted);
+  if (!answer) return false;
+
+  return accepted.some((candidate) => {
+    const expected = normalizeAnswer(candidate);
+    if (!expected) return false;
+    if (answer === expected) return true;
+    // "van gogh" vs "vangogh"
+    if (answer.replace(/ /g, "") === expected.replace(/ /g, "")) return true;
+
+    const max = allowedTypos(expected, opts);
+    return max > 0 && editDistance(answer, expected, max) <= max;
+  });
+};
+
+// Aliases and surnames are short forms that tend to sit one letter away
+// from other real words ("Franc" / "France"), so below this length they
+// must match exactly
+const MIN_ALIAS_TYPO_LENGTH = 8;
+
+// Questions whose answer is a person
+const PERSON_QUESTION =
+  /\bwho(m|se)?\b|\bwhich\b[^?]{0,30}?\b(scientist|physicist|chemist|inventor|artist|painter|sculptor|composer|author|writer|poet|playwright|explorer|president|prime minister|emperor|king|queen|leader|director|philosopher)\b/i;
+
+// Name particles that belong to the surname: "van gogh", "da vinci"
+const PARTICLES = new Set([
+  "al",
+  "bin",
+  "da",
+  "de",
+  "del",
+  "della",
+  "den",
+  "der",
+  "di",
+  "du",
+  "ibn",
+  "la",
+  "le",
+  "van",
+  "von",
+]);
+
+/**
+ * The surname of a full name, particles included: "Vincent van Gogh" →
+ * "van gogh". Null for single names and for titles like "Joan of Arc".
+ */
+export const surname = (name: string) => {
+  const words = normalizeAnswer(name).split(" ");
+  if (words.length < 2 || words.length > 4) return null;
+  if (words.some((w) => w === "of" || w === "and" || /\d/.test(w))) {
+    return null;
+  }
+
+  let start = words.length - 1;
+  while (start > 1 && PARTICLES.has(words[start - 1])) start--;
+  return words.slice(start).join(" ");
+};
+
+/**
+ * Check a submission against a question's answer and its aliases. When
+ * the question asks for a person, the surname alone is enough
+ * ("Einstein" for "Albert Einstein"). Only the full answer and long
+ * aliases forgive typos.
+ */
+export const isCorrectAnswer = (
+  submitted: string,
+  question: {
+    question?: string;
+    answer?: string;
+    acceptable_answers?: string[];
+  },
+  options?: Partial<AnswerMatchOptions>
+) => {
+  if (!question.answer) return false;
+
+  const aliases = [...(question.acceptable_answers ?? [])];
+  const last =
+    question.question && PERSON_QUESTION.test(question.question)
+      ? surname(question.answer)
+      : null;
+  if (last) aliases.push(last);
+
+  const short = aliases.filter(
+    (a) => normalizeAnswer(a).length < MIN_ALIAS_TYPO_LENGTH
+  );
+  const fuzzy = [question.answer, ...aliases.filter((a) => !short.includes(a))];
+
+  return (
+    matchesAnswer(submitted, fuzzy, options) ||
+    matchesAnswer(submitted, short, { ...options, maxTypos: 0 })
+  );
+};
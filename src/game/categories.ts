@@ -0,0 +1,141 @@
+import { normalizeAnswer } from "./answer.matcher";
+
+export type Category = {
+  id: string; // stored on questions and room configs
+  name: string; // shown to players
+  aliases: string[]; // other spellings mapped onto this category
+  icon: string; // client icon key
+};
+
+/**
+ * The canonical question categories. Questions only ever store an id from
+ * this list; anything else is resolved through the aliases.
+ */
+export const CATEGORIES: Category[] = [
+  {
+    id: "general",
+    name: "General Knowledge",
+    aliases: ["general knowledge", "miscellaneous", "misc", "trivia"],
+    icon: "lightbulb",
+  },
+  {
+    id: "science",
+    name: "Science",
+    aliases: ["physics", "chemistry", "biology", "astronomy", "space"],
+    icon: "flask",
+  },
+  {
+    id: "math",
+    name: "Mathematics",
+    aliases: ["mathematics", "maths", "numbers"],
+    icon: "calculator",
+  },
+  {
+    id: "technology",
+    name: "Technology",
+    aliases: ["tech", "computers", "computing", "internet"],
+    icon: "chip",
+  },
+  {
+    id: "history",
+    name: "History",
+    aliases: ["world history", "ancient history"],
+    icon: "scroll",
+  },
+  {
+    id: "geography",
+    name: "Geography",
+    aliases: ["countries", "capitals", "world"],
+    icon: "globe",
+  },
+  {
+    id: "literature",
+    name: "Literature",
+    aliases: ["books", "authors", "poetry"],
+    icon: "book",
+  },
+  {
+    id: "language",
+    name: "Language",
+    aliases: ["languages", "words", "vocabulary"],
+    icon: "speech",
+  },
+  {
+    id: "art",
+    name: "Art",
+    aliases: ["arts", "painting", "music", "art and music"],
+    icon: "palette",
+  },
+  {
+    id: "entertainment",
+    name: "Entertainment",
+    aliases: ["movies", "film", "tv", "television", "pop culture"],
+    icon: "film",
+  },
+  {
+    id: "sports",
+    name: "Sports",
+    aliases: ["sport", "football", "soccer", "olympics"],
+    icon: "trophy",
+  },
+  {
+    id: "nature",
+    name: "Nature",
+    aliases: ["environment", "plants", "weather"],
+    icon: "leaf",
+  },
+  {
+    id: "animals",
+    name: "Animals",
+    aliases: ["animal", "wildlife", "zoology"],
+    icon: "paw",
+  },
+  {
+    id: "food",
+    name: "Food & Drink",
+    aliases: ["food and drink", "cooking", "cuisine", "drinks"],
+    icon: "utensils",
+  },
+  {
+    id: "mythology",
+    name: "Mythology",
+    aliases: ["myths", "legends", "religion"],
+    icon: "trident",
+  },
+  {
+    id: "culture",
+    name: "Culture",
+    aliases: ["traditions", "society", "festivals"],
+    icon: "masks",
+  },
+];
+
+export const DEFAULT_CATEGORY = "general";
+export const CATEGORY_IDS = CATEGORIES.map((c) => c.id);
+
+// Ids, display names and aliases, all normalized like answers are
+const lookup = new Map<string, Category>();
+for (const category of CATEGORIES) {
+  for (const key of [category.id, category.name, ...category.aliases]) {
+    lookup.set(normalizeAnswer(key), category);
+  }
+}
+
+/**
+ * The canonical category for an id, name or alias, or null if unknown
+ */
+export const resolveCategory = (raw: unknown): Category | null =>
+  typeof raw === "string" ? lookup.get(normalizeAnswer(raw)) ?? null : null;
+
+/**
+ * Like resolveCategory but throws on unknown categories
+ */
+export const requireCategory = (raw: unknown): string => {
+  const category = resolveCategory(raw);
+  if (!category) {
+    throw new Error(
+      `Unknown category "${raw}"; use one of ${CATEGORY_IDS.join(", ")}`
+    );
+  }
+  return category.id;
+};
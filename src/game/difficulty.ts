@@ -0,0 +1,131 @@
+import { DIFFICULTIES } from "../service/question.service";
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/**
+ * How a room chooses the difficulty of its next question
+ * - any: no preference
+ * - fixed: always the same level
+ * - curve: walk through steps, roundsPerStep rounds each (then stay on the
+ *   last step, or start over when loop is set)
+ * - adaptive: from the average exp of the players in the room
+ */
+export type DifficultyPlan =
+  | { mode: "any" }
+  | { mode: "fixed"; level: Difficulty }
+  | {
+      mode: "curve";
+      steps: Difficulty[];
+      roundsPerStep: number;
+      loop?: boolean;
+    }
+  | { mode: "adaptive"; mediumExp: number; hardExp: number };
+
+export const DEFAULT_ADAPTIVE_PLAN: DifficultyPlan = {
+  mode: "adaptive",
+  mediumExp: 10,
+  hardExp: 25,
+};
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === "string" &&
+  (DIFFICULTIES as readonly string[]).includes(value);
+
+/**
+ * Difficulty for the given (1-based) round, or null for any
+ */
+export const targetDifficulty = (
+  plan: DifficultyPlan | undefined,
+  round: number,
+  playerExp: number[]
+): Difficulty | null => {
+  if (!plan) return null;
+
+  switch (plan.mode) {
+    case "any":
+      return null;
+    case "fixed":
+      return plan.level;
+    case "curve": {
+      const step = Math.floor((round - 1) / plan.roundsPerStep);
+      const index = plan.loop
+        ? step % plan.steps.length
+        : Math.min(step, plan.steps.length - 1);
+      return plan.steps[index];
+    }
+    case "adaptive": {
+      if (playerExp.length === 0) return "easy";
+      const average = playerExp.reduce((a, b) => a + b, 0) / playerExp.length;
+      if (average >= plan.hardExp) return "hard";
+      if (average >= plan.mediumExp) return "medium";
+      return "easy";
+    }
+  }
+};
+
+/**
+ * The level itself, then the others nearest first
+ * (medium → easy, hard; hard → medium, easy)
+ */
+export const difficultyFallback = (level: Difficulty): Difficulty[] => {
+  const index = DIFFICULTIES.indexOf(level);
+  return [...DIFFICULTIES].sort(
+    (a, b) =>
+      Math.abs(DIFFICULTIES.indexOf(a) - index) -
+        Math.abs(DIFFICULTIES.indexOf(b) - index) ||
+      // On a tie prefer the easier level
+      DIFFICULTIES.indexOf(a) - DIFFICULTIES.indexOf(b)
+  );
+};
+
+/**
+ * Validate a plan from an admin request
+ */
+export const parseDifficultyPlan = (raw: any): DifficultyPlan => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("difficulty must be an object with a mode");
+  }
+
+  switch (raw.mode) {
+    case "any":
+      return { mode: "any" };
+    case "fixed":
+      if (!isDifficulty(raw.level)) {
+        throw new Error(
+          `difficulty.level must be one of ${DIFFICULTIES.join(", ")}`
+        );
+      }
+      return { mode: "fixed", level: raw.level };
+    case "curve": {
+      const steps = raw.steps ?? ["easy", "medium", "hard"];
+      if (
+        !Array.isArray(steps) ||
+        steps.length === 0 ||
+        !steps.every(isDifficulty)
+      ) {
+        throw new Error(
+          `difficulty.steps must be a list of ${DIFFICULTIES.join(", ")}`
+        );
+      }
+      const roundsPerStep = raw.roundsPerStep ?? 1;
+      if (!Number.isInteger(roundsPerStep) || roundsPerStep < 1) {
+        throw new Error("difficulty.roundsPerStep must be a positive integer");
+      }
+      return { mode: "curve", steps, roundsPerStep, loop: !!raw.loop };
+    }
+    case "adaptive": {
+      const { mediumExp, hardExp } = {
+        ...DEFAULT_ADAPTIVE_PLAN,
+        ...raw,
+      } as { mediumExp: number; hardExp: number };
+      if (!(mediumExp >= 0) || !(hardExp > mediumExp)) {
+        throw new Error(
+          "difficulty.hardExp must be greater than difficulty.mediumExp"
+        );
+      }
+      return { mode: "adaptive", mediumExp, hardExp };
+    }
+    default:
+      throw new Error("difficulty.mode must be any, fixed, curve or adaptive");
+  }
+};
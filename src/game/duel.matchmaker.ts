@@ -0,0 +1,211 @@
+import { Server } from "socket.io";
+import { Leadership } from "../cluster/leader";
+import { MemoryStateStore, SharedStateStore } from "../cluster/state.store";
+import { duelService } from "../service/duel.service";
+import { InsufficientStakeError } from "../service/errors";
+import { roomRegistry } from "./room.registry";
+
+const QUEUE_KEY = "duel:queue";
+const MATCHMAKER_KEY = "duel:matchmaker";
+const MATCH_INTERVAL_MS = 2000;
+
+export const DUEL_BEST_OF = [1, 3, 5];
+export const MAX_DUEL_STAKE = 100; // tokens
+const EXP_BAND = 10; // players within the same band of exp are matched
+const BAND_WIDEN_MS = 20000; // every wait this long reaches one band further
+
+export type DuelTicket = {
+  userId: string;
+  username: string;
+  exp: number;
+  socketId: string;
+  bestOf: number;
+  stake: number;
+  queuedAt: number;
+};
+
+export const expBand = (exp: number) => Math.floor(Math.max(exp, 0) / EXP_BAND);
+
+const isDuelRoom = (name: string) => !!roomRegistry.get(name)?.config.duel;
+
+/**
+ * Whether two queued players may be paired: same duel terms and close
+ * enough in exp. The longer the earlier of them has waited, the further
+ * apart their bands may be.
+ */
+export function canPair(a: DuelTicket, b: DuelTicket, now: number) {
+  if (a.userId === b.userId) return false;
+  if (a.bestOf !== b.bestOf || a.stake !== b.stake) return false;
+  const waited = now - Math.min(a.queuedAt, b.queuedAt);
+  const reach = Math.floor(waited / BAND_WIDEN_MS);
+  return Math.abs(expBand(a.exp) - expBand(b.exp)) <= reach;
+}
+
+/**
+ * Matchmaking queue for 1v1 duels. Tickets live in the shared store so
+ * players on any instance can be paired; only the instance holding the
+ * matchmaker lock pairs them.
+ */
+class DuelMatchmaker {
+  private io: Server | null = null;
+  private store: SharedStateStore = new MemoryStateStore();
+  private leadership = new Leadership(this.store);
+  private interval: NodeJS.Timeout | null = null;
+  private matching = false;
+
+  public attach(io: Server, store: SharedStateStore) {
+    this.io = io;
+    this.store = store;
+    this.leadership = new Leadership(store);
+  }
+
+  public async start() {
+    await this.leadership.watch(MATCHMAKER_KEY, {
+      onAcquire: async () => {},
+      onLose: () => {},
+    });
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      this.match().catch((err) =>
+        console.error("❌ Duel matchmaking failed:", err)
+      );
+    }, MATCH_INTERVAL_MS);
+  }
+
+  public async stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    await this.leadership.stop();
+  }
+
+  /**
+   * Queue a player, replacing any ticket they already have
+   */
+  public async join(
+    player: Omit<DuelTicket, "bestOf" | "stake" | "queuedAt">,
+    options: { bestOf?: unknown; stake?: unknown } = {}
+  ) {
+    const { bestOf = 3, stake = 0 } = options;
+    if (!DUEL_BEST_OF.includes(bestOf as number)) {
+      throw new Error(`bestOf must be one of ${DUEL_BEST_OF.join(", ")}`);
+    }
+    if (
+      !Number.isInteger(stake) ||
+      (stake as number) < 0 ||
+      (stake as number) > MAX_DUEL_STAKE
+    ) {
+      throw new Error(
+        `stake must be a whole number of tokens from 0 to ${MAX_DUEL_STAKE}`
+      );
+    }
+    if ((await roomRegistry.findByPlayer(player.userId)).some(isDuelRoom)) {
+      throw new Error("Finish your current duel first");
+    }
+
+    const ticket: DuelTicket = {
+      ...player,
+      bestOf: bestOf as number,
+      stake: stake as number,
+      queuedAt: Date.now(),
+    };
+    await this.store.hset(QUEUE_KEY, player.userId, JSON.stringify(ticket));
+    return ticket;
+  }
+
+  public async leave(userId: string) {
+    await this.store.hdel(QUEUE_KEY, userId);
+  }
+
+  public async queued(): Promise<DuelTicket[]> {
+    const tickets = await this.store.hgetall(QUEUE_KEY);
+    return Object.values(tickets)
+      .map((t) => JSON.parse(t) as DuelTicket)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  /**
+   * Pair the longest-waiting players first
+   */
+  private async match() {
+    if (!this.leadership.isLeader(MATCHMAKER_KEY) || this.matching) return;
+    this.matching = true;
+
+    try {
+      const waiting = await this.queued();
+      const now = Date.now();
+      const paired = new Set<string>();
+
+      for (const a of waiting) {
+        if (paired.has(a.userId)) continue;
+        const b = waiting.find(
+          (t) => !paired.has(t.userId) && canPair(a, t, now)
+        );
+        if (!b) continue;
+
+        paired.add(a.userId);
+        paired.add(b.userId);
+        await this.startDuel(a, b);
+      }
+    } finally {
+      this.matching = false;
+    }
+  }
+
+  private async startDuel(a: DuelTicket, b: DuelTicket) {
+    await Promise.all([this.leave(a.userId), this.leave(b.userId)]);
+
+    let room;
+    try {
+      ({ room } = await duelService.create([a, b], {
+        bestOf: a.bestOf,
+        stake: a.stake,
+      }));
+    } catch (err) {
+      // The player who couldn't pay drops out and the other waits on;
+      // on any other failure both are told to queue again
+      const short = err instanceof InsufficientStakeError ? err.userId : null;
+      if (!short) console.error("❌ Failed to start duel:", err);
+      for (const t of [a, b]) {
+        if (short && t.userId !== short) {
+          await this.store.hset(QUEUE_KEY, t.userId, JSON.stringify(t));
+          continue;
+        }
+        this.io?.to(t.socketId).emit("duel:error", {
+          message: short
+            ? "Not enough tokens for the duel stake"
+            : "Failed to start the duel, please queue again",
+        });
+      }
+      return;
+    }
+
+    console.log(`⚔️ Duel ${room.name}: ${a.username} vs ${b.username}`);
+    for (const [me, opponent] of [
+      [a, b],
+      [b, a],
+    ]) {
+      this.io?.to(me.socketId).emit("duel:matched", {
+        room: room.name,
+        bestOf: me.bestOf,
+        stake: me.stake,
+        opponent: {
+          userId: opponent.userId,
+          username: opponent.username,
+          exp: opponent.exp,
+        },
+      });
+      roomRegistry.dispatch({
+        type: "join",
+        room: room.name,
+        player: {
+          userId: me.userId,
+          username: me.username,
+          exp: me.exp,
+          socketId: me.socketId,
+        },
+      });
+    }
+  }
+}
+
+export const duelMatchmaker = new DuelMatchmaker();
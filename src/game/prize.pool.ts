@@ -0,0 +1,43 @@
+import { BALANCE_PER_TOKEN } from "../service/service";
+import type { TriviaSubmission } from "./winner.selection";
+
+export const DEFAULT_MAX_ATTEMPTS = 1; // one locked answer
+export const DEFAULT_RAKE_PERCENT = 10;
+
+/**
+ * What a round pays out, in balance units. Entry fees are converted at
+ * the token price; the house keeps the rake and adds its contribution
+ * (the question's reward) on top.
+ */
+export type PrizePool = {
+  entries: number; // players who paid to enter
+  fees: number; // entry fees, before rake
+  rake: number; // kept by the house
+  house: number; // house contribution
+  total: number; // fees - rake + house, split by the room's scoring
+};
+
+export function prizePool(params: {
+  submissions: TriviaSubmission[];
+  house: number;
+  rakePercent?: number;
+}): PrizePool {
+  const rakePercent = params.rakePercent ?? DEFAULT_RAKE_PERCENT;
+
+  // Only the entry attempt carries the fee
+  const paid = params.submissions.filter((s) => s.tokensSpent > 0);
+  const fees = paid.reduce(
+    (sum, s) => sum + s.tokensSpent * BALANCE_PER_TOKEN,
+    0
+  );
+  // Rounded up so the pool never pays out more than it took in
+  const rake = Math.ceil((fees * rakePercent) / 100);
+
+  return {
+    entries: new Set(paid.map((s) => s.userId)).size,
+    fees,
+    rake,
+    house: params.house,
+    total: fees - rake + params.house,
+  };
+}
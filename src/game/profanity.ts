@@ -0,0 +1,29 @@
+import { normalizeAnswer } from "./answer.matcher";
+
+// Kept short on purpose: generated trivia only needs the obvious cases
+// caught, anything borderline ends up in admin review anyway
+const BLOCKED = [
+  "fuck",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "bastard",
+  "dickhead",
+  "wanker",
+  "twat",
+  "slut",
+  "whore",
+  "retard",
+  "faggot",
+  "nigger",
+  "nigga",
+];
+
+// Whole words, plus common endings (fucking, shitty, bitches, ...)
+const pattern = new RegExp(
+  `\\b(${BLOCKED.join("|")})(s|es|ed|er|ers|ing|y|ty)?\\b`
+);
+
+export const containsProfanity = (...texts: string[]) =>
+  texts.some((text) => pattern.test(normalizeAnswer(text)));
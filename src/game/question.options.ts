@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import { QuestionType } from "../interfaces/interface";
+import { normalizeAnswer } from "./answer.matcher";
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+/**
+ * Fisher–Yates with a CSPRNG so the answer's position can't be predicted
+ */
+export const shuffle = <T>(items: T[]) => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+/**
+ * Order the options are shown in for one round (true/false stays fixed)
+ */
+export const roundOptions = (question: {
+  type?: QuestionType;
+  options?: string[];
+}) => {
+  if (question.type === QuestionType.TRUE_FALSE) return TRUE_FALSE_OPTIONS;
+  if (question.type === QuestionType.MULTIPLE_CHOICE) {
+    return shuffle(question.options ?? []);
+  }
+  return null;
+};
+
+/**
+ * The option a player picked, by index or (older clients) by its text
+ */
+export const resolveChoice = (options: string[], answer: string | number) => {
+  if (typeof answer === "number") {
+    return Number.isInteger(answer) ? options[answer] ?? null : null;
+  }
+  const picked = normalizeAnswer(answer);
+  return options.find((o) => normalizeAnswer(o) === picked) ?? null;
+};
+
+/**
+ * Clean a generated or imported question's type/options. Anything that
+ * doesn't make a valid choice question falls back to free text.
+ */
+export const sanitizeChoices = (
+  answer: string,
+  type?: unknown,
+  options?: unknown
+): { type: QuestionType; options: string[]; answer: string } => {
+  if (type === QuestionType.TRUE_FALSE) {
+    const value = TRUE_FALSE_OPTIONS.find(
+      (o) => o.toLowerCase() === answer.trim().toLowerCase()
+    );
+    if (value) {
+      return {
+        type: QuestionType.TRUE_FALSE,
+        options: TRUE_FALSE_OPTIONS,
+        answer: value,
+      };
+    }
+  }
+
+  if (Array.isArray(options)) {
+    const seen = new Set<string>();
+    const cleaned = options
+      .filter((o): o is string => typeof o === "string" && !!o.trim())
+      .map((o) => o.trim())
+      .filter((o) => {
+        const key = normalizeAnswer(o);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (
+      cleaned.length >= MIN_OPTIONS &&
+      cleaned.length <= MAX_OPTIONS &&
+      cleaned.includes(answer.trim())
+    ) {
+      return {
+        type: QuestionType.MULTIPLE_CHOICE,
+        options: cleaned,
+        answer: answer.trim(),
+      };
+    }
+  }
+
+  return { type: QuestionType.FREE_TEXT, options: [], answer: answer.trim() };
+};
+
+/**
+ * Pick wrong answers for a question from a pool of other questions.
+ * Numbers get nearby numbers; text prefers answers to similarly worded
+ * questions, then the same category.
+ */
+export const buildDistractors = (
+  question: {
+    question: string;
+    answer: string;
+    acceptable_answers?: string[];
+    category?: string;
+  },
+  pool: { question: string; answer: string; category?: string }[],
+  count: number = 3
+) => {
+  const answer = question.answer.trim();
+
+  if (/^\d+$/.test(answer)) {
+    const value = Number(answer);
+    // Years get a wider spread than small counts
+    const spread =
+      value >= 1000 ? 10 : Math.max(count, Math.ceil(value * 0.25));
+    const picks = new Set<number>();
+    while (picks.size < count) {
+      const offset = crypto.randomInt(1, spread + 1);
+      const candidate = crypto.randomInt(2) ? value + offset : value - offset;
+      if (candidate >= 0 && candidate !== value) picks.add(candidate);
+    }
+    return [...picks].map(String);
+  }
+
+  const words = question.question.split(/\s+/);
+  const answerWords = answer.split(/\s+/).length;
+  // Shared opening words ("What is the capital…", "Who painted…") are
+  // the best hint that two answers are the same kind of thing
+  const similarity = (other: string) => {
+    const otherWords = other.split(/\s+/);
+    let shared = 0;
+    while (shared < 4 && words[shared] === otherWords[shared]) shared++;
+    return shared >= 2 || words[0] === "Who" ? shared : 0;
+  };
+
+  // Never offer another spelling of the right answer as a wrong one
+  const taken = new Set(
+    [answer, ...(question.acceptable_answers ?? [])].map(normalizeAnswer)
+  );
+  const ranked = shuffle(pool)
+    .filter((q) => !/^\d+$/.test(q.answer.trim()) && !/[(,]/.test(q.answer))
+    .map((q) => ({
+      answer: q.answer.trim(),
+      score:
+        similarity(q.question) * 2 +
+        (q.category === question.category ? 1 : 0) +
+        (q.answer.trim().split(/\s+/).length === answerWords ? 1 : 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const distractors: string[] = [];
+  for (const candidate of ranked) {
+    const key = normalizeAnswer(candidate.answer);
+    if (taken.has(key)) continue;
+    taken.add(key);
+    distractors.push(candidate.answer);
+    if (distractors.length === count) break;
+  }
+  return distractors;
+};
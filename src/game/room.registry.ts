@@ -0,0 +1,432 @@
+import crypto from "crypto";
+import { Server } from "socket.io";
+import {
+  defaultTriviaConfig,
+  MAX_PRIVATE_QUESTIONS,
+  TriviaPlayer,
+  TriviaRoom,
+  TriviaRoomConfig,
+  TriviaRoomHooks,
+} from "./trivia.room";
+import { MemoryRoundStateStore, RoundStateStore } from "./round.store";
+import { MemoryStateStore, SharedStateStore } from "../cluster/state.store";
+import { Leadership } from "../cluster/leader";
+import { requireCategory } from "./categories";
+
+export const PICK_A_ROW_ROOM = {
+  name: "pick-a-row",
+  description: "Guess a row and win big",
+};
+
+const ROOM_CONFIG_KEY = "trivia:rooms:config";
+const ROOM_SUMMARY_KEY = "trivia:rooms:summary";
+
+// Server-to-server events (only sent when state is shared)
+const ROOM_COMMAND_EVENT = "trivia:command";
+const ROOM_CREATED_EVENT = "trivia:room-created";
+const ROOM_REMOVED_EVENT = "trivia:room-removed";
+
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+const INVITE_CODE_LENGTH = 6;
+export const MAX_PRIVATE_STAKE = 100; // tokens per round
+
+export type PrivateRoomOptions = {
+  questions?: unknown;
+  categories?: unknown;
+  stake?: unknown;
+};
+
+/**
+ * Player actions, forwarded to whichever instance leads the room
+ */
+export type RoomCommand =
+  | { type: "join"; room: string; player: TriviaPlayer; inviteCode?: string }
+  | {
+      type: "reconnect";
+      room: string;
+      userId: string;
+      socketId: string;
+      exp: number;
+    }
+  | { type: "leave"; room: string; userId: string; socketId?: string }
+  | {
+      type: "answer";
+      room: string;
+      userId: string;
+      username: string;
+      socketId: string;
+      answer: string | number; // option index for choice questions
+      receivedAt: number;
+    }
+  // Host controls for private rooms
+  | { type: "start"; room: string; userId: string; socketId: string }
+  | {
+      type: "kick";
+      room: string;
+      userId: string;
+      targetUserId: string;
+      socketId: string;
+    }
+  | {
+      type: "configure";
+      room: string;
+      userId: string;
+      socketId: string;
+      questions?: number;
+      categories?: string[];
+    };
+
+type RoomSummary = ReturnType<TriviaRoom["summary"]> & { members: string[] };
+
+/**
+ * Keeps every trivia room by name and builds the public room list
+ * (trivia rooms + the single-player Pick a Row room). Every instance
+ * knows every room's config; the room's leader publishes its summary
+ * to the shared store and handles the commands other instances forward.
+ */
+class RoomRegistry {
+  private io: Server | null = null;
+  private hooks: TriviaRoomHooks = {};
+  private store: RoundStateStore = new MemoryRoundStateStore();
+  private state: SharedStateStore = new MemoryStateStore();
+  private leadership = new Leadership(this.state);
+  private started = false;
+  private readonly rooms = new Map<string, TriviaRoom>();
+
+  public attach(
+    io: Server,
+    hooks: TriviaRoomHooks = {},
+    store: RoundStateStore = new MemoryRoundStateStore(),
+    state: SharedStateStore = new MemoryStateStore()
+  ) {
+    this.io = io;
+    this.store = store;
+    this.state = state;
+    this.leadership = new Leadership(state);
+    this.hooks = {
+      ...hooks,
+      onPlayersChanged: (room) => {
+        hooks.onPlayersChanged?.(room);
+        this.publishSummary(room);
+      },
+      onEmpty: (room) => {
+        hooks.onEmpty?.(room);
+        if (this.rooms.get(room.name) === room) this.remove(room.name);
+      },
+    };
+
+    if (!state.shared) return;
+    io.on(ROOM_COMMAND_EVENT, (command: RoomCommand) => {
+      if (this.rooms.get(command.room)?.isLeading) this.apply(command);
+    });
+    io.on(ROOM_CREATED_EVENT, (config: TriviaRoomConfig) => {
+      if (!this.rooms.has(config.name)) this.add(config);
+    });
+    io.on(ROOM_REMOVED_EVENT, (name: string) => {
+      if (this.rooms.has(name)) this.drop(name);
+    });
+  }
+
+  public create(config: Partial<TriviaRoomConfig> & { name: string }) {
+    if (!this.io) throw new Error("Room registry is not attached to a server");
+
+    const name = config.name.trim().toLowerCase();
+    if (!/^[a-z0-9-]{3,32}$/.test(name)) {
+      throw new Error(
+        "Room name must be 3-32 characters of letters, numbers or dashes"
+      );
+    }
+    if (this.rooms.has(name) || name === PICK_A_ROW_ROOM.name) {
+      throw new Error(`Room "${name}" already exists`);
+    }
+
+    const room = this.add(defaultTriviaConfig({ ...config, name }));
+    this.state
+      .hset(ROOM_CONFIG_KEY, name, JSON.stringify(room.config))
+      .catch((err) => console.error(`❌ Failed to store room ${name}:`, err));
+    this.emitToServers(ROOM_CREATED_EVENT, room.config);
+    this.broadcastRooms();
+
+    console.log(`🏠 Trivia room created: ${name}`);
+    return room;
+  }
+
+  /**
+   * A player's private room with a fresh invite code, ready to join
+   */
+  public async createPrivate(host: string, options: PrivateRoomOptions = {}) {
+    const { questions = 10, categories = [], stake = 0 } = options;
+    if (
+      !Number.isInteger(questions) ||
+      (questions as number) < 1 ||
+      (questions as number) > MAX_PRIVATE_QUESTIONS
+    ) {
+      throw new Error(
+        `questions must be a whole number from 1 to ${MAX_PRIVATE_QUESTIONS}`
+      );
+    }
+    if (!Array.isArray(categories)) {
+      throw new Error("categories must be an array");
+    }
+    if (
+      !Number.isInteger(stake) ||
+      (stake as number) < 0 ||
+      (stake as number) > MAX_PRIVATE_STAKE
+    ) {
+      throw new Error(
+        `stake must be a whole number of tokens from 0 to ${MAX_PRIVATE_STAKE}`
+      );
+    }
+
+    let inviteCode: string;
+    do {
+      inviteCode = Array.from(
+        crypto.randomBytes(INVITE_CODE_LENGTH),
+        (b) => INVITE_ALPHABET[b % INVITE_ALPHABET.length]
+      ).join("");
+    } while (this.findByInvite(inviteCode));
+
+    const room = this.create({
+      name: `p-${crypto.randomBytes(4).toString("hex")}`,
+      description: "Private room",
+      categories: [...new Set(categories.map(requireCategory))],
+      // Stakes go to the winner, or back to everyone when nobody wins;
+      // no house money or rake among friends
+      entryTokens: stake as number,
+      rewardMultiplier: 0,
+      rakePercent: 0,
+      waitDuration: 10,
+      private: { host, inviteCode, questions: questions as number },
+    });
+    await this.whenLed(room);
+    return room;
+  }
+
+  /**
+   * Resolves once this instance has tried to lead a room it just
+   * created, so players can be put in it straight away
+   */
+  public async whenLed(room: TriviaRoom) {
+    // Already watched by add; this just waits for the first attempt
+    if (this.started) await this.lead(room);
+  }
+
+  /**
+   * The room an invite code opens, on any instance
+   */
+  public findByInvite(inviteCode: string) {
+    const code = inviteCode.trim().toUpperCase();
+    return this.all().find((room) => room.config.private?.inviteCode === code);
+  }
+
+  public remove(name: string) {
+    if (!this.rooms.has(name)) throw new Error(`Room "${name}" not found`);
+
+    this.drop(name);
+    Promise.all([
+      this.state.hdel(ROOM_CONFIG_KEY, name),
+      this.state.hdel(ROOM_SUMMARY_KEY, name),
+    ]).catch((err) => console.error(`❌ Failed to remove room ${name}:`, err));
+    this.emitToServers(ROOM_REMOVED_EVENT, name);
+    this.broadcastRooms();
+  }
+
+  /**
+   * Load rooms other instances created, then compete for leadership of
+   * each one (call once on boot, before accepting connections). A room
+   * this instance wins is restored from its last checkpoint.
+   */
+  public async recover() {
+    const stored = await this.state.hgetall(ROOM_CONFIG_KEY);
+    const checkpoints = await this.store.loadAll();
+
+    const configs: TriviaRoomConfig[] = [
+      ...Object.values(stored).map((c) => JSON.parse(c)),
+      // Rooms checkpointed before configs were shared
+      ...checkpoints.map((c) => ({ ...c.config, name: c.room })),
+    ];
+    for (const config of configs) {
+      if (!this.rooms.has(config.name)) this.add(config);
+    }
+    for (const room of this.all()) {
+      if (!(room.name in stored)) {
+        await this.state.hset(
+          ROOM_CONFIG_KEY,
+          room.name,
+          JSON.stringify(room.config)
+        );
+      }
+    }
+
+    this.started = true;
+    await Promise.all(this.all().map((room) => this.lead(room)));
+  }
+
+  /**
+   * Run a player action here if this instance leads the room, otherwise
+   * hand it to the leader
+   */
+  public dispatch(command: RoomCommand) {
+    const room = this.rooms.get(command.room);
+    if (!room) return;
+
+    // Without shared state there is no other instance to hand it to
+    if (room.isLeading || !this.state.shared) {
+      this.apply(command);
+      return;
+    }
+    this.emitToServers(ROOM_COMMAND_EVENT, command);
+  }
+
+  public get(name: string) {
+    return this.rooms.get(name);
+  }
+
+  public all() {
+    return [...this.rooms.values()];
+  }
+
+  /**
+   * Names of the rooms a user plays in, whichever instance leads them
+   */
+  public async findByPlayer(userId: string) {
+    const summaries = await this.summaries();
+    return summaries
+      .filter((s) => s.members.includes(userId))
+      .map((s) => s.name);
+  }
+
+  public async list() {
+    const summaries = await this.summaries();
+    return [
+      // Private rooms are only reachable with their invite code, duels
+      // only by their two players
+      ...summaries
+        .filter((s) => !s.private && !s.duel)
+        .map(({ members, ...summary }) => summary),
+      PICK_A_ROW_ROOM,
+    ];
+  }
+
+  public broadcastRooms() {
+    this.list()
+      .then((rooms) => this.io?.emit("rooms:update", rooms))
+      .catch((err) => console.error("❌ Failed to list rooms:", err));
+  }
+
+  /**
+   * Give up every room so other instances take over without waiting for
+   * the locks to expire
+   */
+  public async shutdown() {
+    await this.leadership.stop();
+  }
+
+  private add(config: TriviaRoomConfig) {
+    const room = new TriviaRoom(this.io!, config, this.hooks, this.store);
+    this.rooms.set(config.name, room);
+    if (this.started) {
+      this.lead(room).catch((err) =>
+        console.error(`❌ Failed to lead room ${config.name}:`, err)
+      );
+    }
+    return room;
+  }
+
+  private drop(name: string) {
+    const room = this.rooms.get(name)!;
+    this.rooms.delete(name);
+    this.leadership
+      .unwatch(`trivia:${name}`)
+      .catch((err) => console.error(`❌ Failed to release ${name}:`, err));
+    room
+      .close("This room has been closed.")
+      .catch((err) => console.error(`❌ Error closing room ${name}:`, err));
+  }
+
+  private async lead(room: TriviaRoom) {
+    await this.leadership.watch(`trivia:${room.name}`, {
+      onAcquire: async () => {
+        try {
+          await room.lead(await this.store.load(room.name));
+        } catch (err) {
+          console.error(`❌ Failed to recover room ${room.name}:`, err);
+        }
+        this.publishSummary(room);
+      },
+      onLose: () => room.relinquish(),
+    });
+  }
+
+  private apply(command: RoomCommand) {
+    const room = this.rooms.get(command.room);
+    if (!room) return;
+
+    switch (command.type) {
+      case "join":
+        return room.join(command.player, command.inviteCode);
+      case "reconnect":
+        return room.reconnect(command.socketId, command.userId, command.exp);
+      case "leave":
+        return room.leave(command.userId, command.socketId);
+      case "answer":
+        room
+          .submitAnswer(
+            command.socketId,
+            command.userId,
+            command.username,
+            command.answer,
+            command.receivedAt
+          )
+          .catch((err) => {
+            console.error("❌ Error in quiz:answer:", err);
+            this.io?.to(command.socketId).emit("quiz:error", {
+              message: "Failed to submit answer",
+            });
+          });
+        return;
+      case "start":
+        return room.hostStart(command.userId, command.socketId);
+      case "kick":
+        return room.kick(
+          command.userId,
+          command.targetUserId,
+          command.socketId
+        );
+      case "configure":
+        return room.configure(command.userId, command.socketId, {
+          questions: command.questions,
+          categories: command.categories,
+        });
+    }
+  }
+
+  private publishSummary(room: TriviaRoom) {
+    if (!room.isLeading || !this.rooms.has(room.name)) return;
+
+    const summary: RoomSummary = { ...room.summary(), members: room.members() };
+    this.state
+      .hset(ROOM_SUMMARY_KEY, room.name, JSON.stringify(summary))
+      .then(() => this.broadcastRooms())
+      .catch((err) =>
+        console.error(`❌ Failed to publish room ${room.name}:`, err)
+      );
+  }
+
+  private async summaries(): Promise<RoomSummary[]> {
+    const stored = await this.state.hgetall(ROOM_SUMMARY_KEY);
+    // Rooms whose leader hasn't published yet show up empty
+    return this.all().map((room) =>
+      stored[room.name]
+        ? JSON.parse(stored[room.name])
+        : { ...room.summary(), members: [] }
+    );
+  }
+
+  private emitToServers(event: string, payload: unknown) {
+    if (!this.state.shared) return;
+    this.io?.serverSideEmit(event, payload);
+  }
+}
+
+export const roomRegistry = new RoomRegistry();
@@ -0,0 +1,103 @@
+import { TriviaRoomStateRepository } from "../db/game.trivia.state.db";
+import type {
+  DuelOutcome,
+  PrivateLobby,
+  TriviaPhase,
+  TriviaRoomConfig,
+} from "./trivia.room";
+import type { TriviaSubmission } from "./winner.selection";
+
+/**
+ * Everything needed to resume or void a room's round after a restart
+ */
+export type RoundCheckpoint = {
+  room: string;
+  version: number;
+  config: TriviaRoomConfig;
+  phase: TriviaPhase;
+  round: number;
+  roundKey?: string | null; // missing from checkpoints written before it was stored
+  questionId: string | null;
+  questionStartTime: number | null;
+  options?: string[] | null; // shuffled order, so indexes survive a restart
+  submissions: TriviaSubmission[];
+  submissionSequence: number;
+  streaks?: Record<string, number>; // see scoring.ts
+  lobby?: PrivateLobby | null; // private rooms only
+  duel?: { wins: Record<string, number>; outcome: DuelOutcome | null } | null;
+  // socketId is missing from checkpoints written before it was stored
+  players: {
+    userId: string;
+    username: string;
+    exp: number;
+    socketId?: string;
+  }[];
+};
+
+export interface RoundStateStore {
+  save(checkpoint: RoundCheckpoint): Promise<void>;
+  load(room: string): Promise<RoundCheckpoint | null>;
+  loadAll(): Promise<RoundCheckpoint[]>;
+  clear(room: string): Promise<void>;
+}
+
+/**
+ * Default store: one document per room in MongoDB
+ */
+export class MongoRoundStateStore implements RoundStateStore {
+  private readonly repository = TriviaRoomStateRepository;
+
+  public async save(checkpoint: RoundCheckpoint) {
+    try {
+      // Skip if a newer snapshot already landed (writes can finish out of order)
+      await this.repository.updateOne(
+        { room: checkpoint.room, version: { $lt: checkpoint.version } },
+        { $set: { version: checkpoint.version, state: checkpoint } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // Upsert hit the unique room index: the stored snapshot is newer
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  public async load(room: string) {
+    const doc = await this.repository.findOne({ room }).lean();
+    return doc ? (doc.state as unknown as RoundCheckpoint) : null;
+  }
+
+  public async loadAll() {
+    const docs = await this.repository.find().lean();
+    return docs.map((d) => d.state as unknown as RoundCheckpoint);
+  }
+
+  public async clear(room: string) {
+    await this.repository.deleteOne({ room });
+  }
+}
+
+/**
+ * Process-local store for tests and single-instance development
+ */
+export class MemoryRoundStateStore implements RoundStateStore {
+  private readonly checkpoints = new Map<string, RoundCheckpoint>();
+
+  public async save(checkpoint: RoundCheckpoint) {
+    const current = this.checkpoints.get(checkpoint.room);
+    if (current && current.version >= checkpoint.version) return;
+    this.checkpoints.set(checkpoint.room, structuredClone(checkpoint));
+  }
+
+  public async load(room: string) {
+    const checkpoint = this.checkpoints.get(room);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  public async loadAll() {
+    return [...this.checkpoints.values()].map((c) => structuredClone(c));
+  }
+
+  public async clear(room: string) {
+    this.checkpoints.delete(room);
+  }
+}
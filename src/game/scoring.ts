@@ -0,0 +1,207 @@
+import { byArrival, TriviaSubmission } from "./winner.selection";
+
+export const SCORING_MODES = [
+  "winner-takes-all",
+  "top-n",
+  "time-decay",
+] as const;
+export type ScoringMode = (typeof SCORING_MODES)[number];
+
+/**
+ * How a room turns correct answers into payouts
+ * - winner-takes-all: the fastest correct player gets the whole reward
+ * - top-n: the first `places` correct players split it by `weights`
+ *   (equal shares when unset)
+ * - time-decay: every correct player shares it in proportion to points
+ * Streak bonuses apply on top in every mode.
+ */
+export type ScoringPolicy = {
+  mode: ScoringMode;
+  places?: number;
+  weights?: number[];
+  minShare?: number; // points for answering at the buzzer, relative to instantly
+  streak?: {
+    bonusPercent: number; // per consecutive correct round after the first
+    maxBonusPercent: number;
+  };
+};
+
+export const DEFAULT_SCORING: ScoringPolicy = { mode: "winner-takes-all" };
+export const MAX_POINTS = 1000;
+const DEFAULT_MIN_SHARE = 0.25;
+
+export type PlayerScore = {
+  userId: string;
+  username: string;
+  correct: boolean;
+  place: number | null; // among correct players, 1 = fastest
+  responseMs: number | null; // first correct answer, from question start
+  points: number; // speed points, 0 unless correct
+  streak: number; // consecutive correct rounds, this one included
+  bonus: number; // streak bonus, included in amount
+  amount: number; // balance paid
+};
+
+// Reward split by weight, rounded down; the remainder goes to the first
+const split = (reward: number, weights: number[]) => {
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return weights.map(() => 0);
+  const shares = weights.map((w) => Math.floor((reward * w) / total));
+  shares[0] += reward - shares.reduce((a, b) => a + b, 0);
+  return shares;
+};
+
+/**
+ * Score everyone who answered this round. streaks holds each player's
+ * streak before the round.
+ */
+export function scoreRound(params: {
+  submissions: TriviaSubmission[];
+  startedAt: number;
+  durationMs: number;
+  reward: number;
+  policy?: ScoringPolicy;
+  streaks?: Record<string, number>;
+}): PlayerScore[] {
+  const { startedAt, durationMs, reward, streaks = {} } = params;
+  const policy = params.policy ?? DEFAULT_SCORING;
+  const minShare = policy.minShare ?? DEFAULT_MIN_SHARE;
+
+  // Each player's first correct answer decides their place, as for the winner
+  const sorted = [...params.submissions].sort(byArrival);
+  const firstCorrect = new Map<string, TriviaSubmission>();
+  const answered = new Map<string, string>();
+  for (const s of sorted) {
+    answered.set(s.userId, s.username);
+    if (s.correct && !firstCorrect.has(s.userId)) firstCorrect.set(s.userId, s);
+  }
+
+  const correct = [...firstCorrect.values()];
+  const scores = new Map<string, PlayerScore>();
+  correct.forEach((s, i) => {
+    const responseMs = Math.min(
+      Math.max(s.receivedAt - startedAt, 0),
+      durationMs
+    );
+    const speed = durationMs > 0 ? 1 - responseMs / durationMs : 1;
+    scores.set(s.userId, {
+      userId: s.userId,
+      username: s.username,
+      correct: true,
+      place: i + 1,
+      responseMs,
+      points: Math.round(MAX_POINTS * (minShare + (1 - minShare) * speed)),
+      streak: (streaks[s.userId] ?? 0) + 1,
+      bonus: 0,
+      amount: 0,
+    });
+  });
+  for (const [userId, username] of answered) {
+    if (scores.has(userId)) continue;
+    scores.set(userId, {
+      userId,
+      username,
+      correct: false,
+      place: null,
+      responseMs: null,
+      points: 0,
+      streak: 0,
+      bonus: 0,
+      amount: 0,
+    });
+  }
+
+  const ranked = correct.map((s) => scores.get(s.userId)!);
+  if (ranked.length > 0 && reward > 0) {
+    let shares: number[];
+    switch (policy.mode) {
+      case "top-n": {
+        const places = Math.min(policy.places ?? 3, ranked.length);
+        const weights = Array.from(
+          { length: places },
+          (_, i) => policy.weights?.[i] ?? 1
+        );
+        shares = split(reward, weights);
+        break;
+      }
+      case "time-decay":
+        shares = split(
+          reward,
+          ranked.map((s) => s.points)
+        );
+        break;
+      default:
+        shares = [reward];
+    }
+    shares.forEach((amount, i) => (ranked[i].amount = amount));
+  }
+
+  if (policy.streak) {
+    const { bonusPercent, maxBonusPercent } = policy.streak;
+    for (const s of ranked) {
+      if (s.amount === 0 || s.streak < 2) continue;
+      const percent = Math.min((s.streak - 1) * bonusPercent, maxBonusPercent);
+      s.bonus = Math.floor((s.amount * percent) / 100);
+      s.amount += s.bonus;
+    }
+  }
+
+  return [...scores.values()];
+}
+
+/**
+ * Validate a policy from an admin request
+ */
+export const parseScoringPolicy = (raw: any): ScoringPolicy => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("scoring must be an object with a mode");
+  }
+  if (!SCORING_MODES.includes(raw.mode)) {
+    throw new Error(`scoring.mode must be one of ${SCORING_MODES.join(", ")}`);
+  }
+
+  const policy: ScoringPolicy = { mode: raw.mode };
+
+  if (raw.mode === "top-n") {
+    const places = raw.places ?? raw.weights?.length ?? 3;
+    if (!Number.isInteger(places) || places < 1 || places > 10) {
+      throw new Error("scoring.places must be a whole number from 1 to 10");
+    }
+    policy.places = places;
+    if (raw.weights !== undefined) {
+      if (
+        !Array.isArray(raw.weights) ||
+        raw.weights.length !== places ||
+        !raw.weights.every((w: unknown) => typeof w === "number" && w > 0)
+      ) {
+        throw new Error(
+          "scoring.weights must be one positive number per place"
+        );
+      }
+      policy.weights = raw.weights;
+    }
+  }
+
+  if (raw.minShare !== undefined) {
+    if (!(raw.minShare >= 0 && raw.minShare <= 1)) {
+      throw new Error("scoring.minShare must be between 0 and 1");
+    }
+    policy.minShare = raw.minShare;
+  }
+
+  if (raw.streak !== undefined) {
+    const { bonusPercent, maxBonusPercent } = raw.streak ?? {};
+    if (
+      !(bonusPercent > 0) ||
+      !(maxBonusPercent >= bonusPercent) ||
+      maxBonusPercent > 100
+    ) {
+      throw new Error(
+        "scoring.streak needs bonusPercent > 0 and maxBonusPercent from bonusPercent to 100"
+      );
+    }
+    policy.streak = { bonusPercent, maxBonusPercent };
+  }
+
+  return policy;
+};
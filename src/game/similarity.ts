@@ -0,0 +1,76 @@
+import { editDistance, normalizeAnswer } from "./answer.matcher";
+
+export type Fingerprint = {
+  grams: Set<string>; // character trigrams of the normalized text
+  words: Set<string>;
+  numbers: string; // its numbers, sorted
+};
+
+/**
+ * Trigrams so rewordings that keep most of the wording and small typos
+ * still overlap; words and numbers to tell apart questions that only
+ * differ in their subject (see similarity)
+ */
+export const fingerprint = (text: string): Fingerprint => {
+  const key = normalizeAnswer(text);
+  const padded = ` ${key} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  const numbers = (key.match(/\d+/g) ?? []).sort().join(" ");
+  return { grams, words: new Set(key.split(" ")), numbers };
+};
+
+// A word swapped for an unrelated one: "symbol Fe" vs "symbol Ca"
+const swapsSubject = (a: Fingerprint, b: Fingerprint) => {
+  const onlyA = [...a.words].filter((w) => !b.words.has(w));
+  const onlyB = [...b.words].filter((w) => !a.words.has(w));
+  if (onlyA.length === 0 || onlyB.length === 0) return false;
+  return onlyA.some((wa) =>
+    onlyB.every((wb) => {
+      // One typo allowed per 4 letters, none in short words
+      const max = Math.floor(Math.max(wa.length, wb.length) / 4);
+      return editDistance(wa, wb, max) > max;
+    })
+  );
+};
+
+/**
+ * Dice coefficient of the trigrams: 1 for the same text, 0 for nothing in
+ * common. Texts with different numbers, or where a word was replaced by
+ * an unrelated one rather than misspelt, ask about something else and
+ * also get 0 ("12 + 13" and "12 + 14" share almost every trigram).
+ */
+export const similarity = (a: Fingerprint, b: Fingerprint) => {
+  if (a.numbers !== b.numbers || swapsSubject(a, b)) return 0;
+  if (a.grams.size === 0 && b.grams.size === 0) return 1;
+  let shared = 0;
+  const [small, large] =
+    a.grams.size <= b.grams.size ? [a.grams, b.grams] : [b.grams, a.grams];
+  for (const gram of small) if (large.has(gram)) shared++;
+  return (2 * shared) / (a.grams.size + b.grams.size);
+};
+
+/**
+ * The most similar entry of a corpus at or above the floor, skipping
+ * entries whose size alone rules them out
+ */
+export const mostSimilar = <T>(
+  target: Fingerprint,
+  corpus: { print: Fingerprint; item: T }[],
+  floor = 0
+): { item: T; score: number } | null => {
+  let best: { item: T; score: number } | null = null;
+  for (const entry of corpus) {
+    const [a, b] = [target.grams.size, entry.print.grams.size];
+    const bound = a + b === 0 ? 1 : (2 * Math.min(a, b)) / (a + b);
+    if (bound < floor || (best && bound <= best.score)) continue;
+
+    const score = similarity(target, entry.print);
+    if (score >= floor && (!best || score > best.score)) {
+      best = { item: entry.item, score };
+    }
+  }
+  return best;
+};
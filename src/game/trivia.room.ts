@@ -0,0 +1,1455 @@
+import { randomUUID } from "crypto";
+import { Server } from "socket.io";
+import { Types } from "mongoose";
+import { gameService } from "../service/service";
+import { LedgerReason, QuestionType } from "../interfaces/interface";
+import { triviaService } from "../service/trivia.service";
+import { AlreadyPostedError } from "../service/errors";
+import { selectWinner, TriviaSubmission, WinnerRule } from "./winner.selection";
+import {
+  MemoryRoundStateStore,
+  RoundCheckpoint,
+  RoundStateStore,
+} from "./round.store";
+import { AnswerMatchOptions, isCorrectAnswer } from "./answer.matcher";
+import { resolveChoice, roundOptions } from "./question.options";
+import type { RotationPolicy } from "../service/rotation.service";
+import { DifficultyPlan, targetDifficulty } from "./difficulty";
+import {
+  DEFAULT_SCORING,
+  PlayerScore,
+  scoreRound,
+  ScoringPolicy,
+} from "./scoring";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_RAKE_PERCENT,
+  prizePool,
+} from "./prize.pool";
+import { requireCategory } from "./categories";
+
+export const QUESTION_DURATION = 30; // seconds
+export const WAIT_DURATION = 30; // seconds
+export const RESULT_DELAY = 15; // seconds
+const MIN_RESUME_SECONDS = 5; // less left than this after a restart → void
+const RECOVERY_GRACE_MS = 30000; // restored players must reconnect within this
+const EMPTY_ROOM_GRACE_MS = 60000; // private rooms left empty this long close
+export const MAX_PRIVATE_QUESTIONS = 50;
+
+export type TriviaPlayer = {
+  userId: string;
+  username: string;
+  exp: number;
+  socketId: string;
+};
+
+export type TriviaRoomConfig = {
+  name: string;
+  description: string;
+  categories?: string[]; // empty = any category
+  entryTokens: number; // tokens charged once per round, on the first answer
+  rewardMultiplier: number; // applied to the question's reward_amount
+  maxAttempts?: number; // answers per player per round, 1 = locked answer
+  rakePercent?: number; // share of entry fees the house keeps
+  minPlayers: number;
+  questionDuration: number; // seconds
+  waitDuration: number; // seconds
+  resultDelay: number; // seconds
+  answerMatching?: Partial<AnswerMatchOptions>; // typo tolerance overrides
+  rotation?: Partial<RotationPolicy>; // question reuse overrides
+  difficulty?: DifficultyPlan; // unset = any difficulty
+  scoring?: ScoringPolicy; // unset = winner takes all
+  tournament?: TournamentRoom;
+  private?: PrivateRoom;
+  duel?: DuelRoom;
+};
+
+/**
+ * A 1v1 duel: the two matched players, first to win most of bestOf
+ * rounds. Stakes are escrowed and paid out by duel.service.ts.
+ */
+export type DuelRoom = {
+  id: string;
+  players: [string, string]; // user ids
+  bestOf: number;
+  stake: number; // tokens from each player
+};
+
+export type DuelOutcome = {
+  winner: string | null; // null for a draw or a cancelled duel
+  reason: "won" | "draw" | "forfeit" | "cancelled";
+  wins: Record<string, number>;
+};
+
+/**
+ * A player-created room: hidden from the room list, joined with the
+ * invite code and started by its host for a set number of questions
+ */
+export type PrivateRoom = {
+  host: string; // creator's user id
+  inviteCode: string;
+  questions: number; // per game
+};
+
+// What the host can change while the room is open
+export type PrivateLobby = {
+  host: string; // passed on when the host leaves
+  questions: number;
+  categories: string[];
+  kicked: string[]; // can't rejoin with the code
+  roundsLeft: number; // in the current game, 0 = not started
+};
+
+/**
+ * A room opened for a tournament: only registered players may join and
+ * it stops for good after a fixed number of rounds
+ */
+export type TournamentRoom = {
+  id: string;
+  rounds: number;
+  players: string[]; // user ids
+};
+
+export type TriviaPhase = "idle" | "waiting" | "question" | "result";
+
+export type TriviaRoomHooks = {
+  onPlayersChanged?: (room: TriviaRoom) => void;
+  onPlayerExp?: (userId: string, exp: number) => void;
+  // Tournament rooms only, see tournament.service.ts
+  onRoundScored?: (
+    room: TriviaRoom,
+    round: number,
+    scores: PlayerScore[]
+  ) => Promise<void>;
+  onFinished?: (room: TriviaRoom) => void;
+  // Private rooms only, after being empty for a while
+  onEmpty?: (room: TriviaRoom) => void;
+  // Duel rooms only, before the first question; false if the duel was
+  // called off meanwhile
+  onDuelStart?: (room: TriviaRoom) => Promise<boolean>;
+  // Duel rooms only, once the result is known
+  onDuelOver?: (room: TriviaRoom, outcome: DuelOutcome) => void;
+};
+
+// Checkpoints written before rounds had their own key
+const legacyRoundKey = (checkpoint: RoundCheckpoint) =>
+  `${checkpoint.room}:${checkpoint.round}:${checkpoint.questionStartTime}`;
+
+export const defaultTriviaConfig = (
+  config: Partial<TriviaRoomConfig> & { name: string }
+): TriviaRoomConfig => ({
+  description: "Trivia multi player game",
+  categories: [],
+  entryTokens: 1,
+  rewardMultiplier: 1,
+  minPlayers: 2,
+  questionDuration: QUESTION_DURATION,
+  waitDuration: WAIT_DURATION,
+  resultDelay: RESULT_DELAY,
+  ...config,
+});
+
+/**
+ * One trivia room. Owns its players, timers and round state and cycles
+ * idle → waiting → question → result → waiting while enough players stay.
+ * Only the instance leading the room runs it; elsewhere it holds just the
+ * config. Players are addressed by socket id so their sockets can live on
+ * any instance.
+ */
+export class TriviaRoom {
+  private players: TriviaPlayer[] = [];
+  private phase: TriviaPhase = "idle";
+
+  private round = 0;
+  // Unique per round: questions come back into the pool, so ledger
+  // references and the settled check can't use the question id
+  private roundKey: string | null = null;
+  private question: any = null;
+  private options: string[] | null = null; // choice order shown this round
+  private questionStartTime: number | null = null;
+  private waitStartTime: number | null = null;
+  private startingQuestion = false;
+
+  // Every accepted attempt, in arrival order
+  private submissions: TriviaSubmission[] = [];
+  private submissionSequence = 0;
+  // Players whose answer is still being charged, so entries don't overlap
+  private pending = new Set<string>();
+  // Consecutive correct rounds per player, for streak bonuses
+  private streaks: Record<string, number> = {};
+  private lobby: PrivateLobby | null;
+  // Rounds won per player and, once decided, the result
+  private duel: { wins: Record<string, number>; outcome: DuelOutcome | null };
+
+  private roundTimeout: NodeJS.Timeout | null = null;
+  private waitTimeout: NodeJS.Timeout | null = null;
+  private resultTimeout: NodeJS.Timeout | null = null;
+  private emptyTimeout: NodeJS.Timeout | null = null;
+
+  private checkpointVersion = 0;
+  private closed = false;
+  private leading = false;
+
+  constructor(
+    private readonly io: Server,
+    public readonly config: TriviaRoomConfig,
+    private readonly hooks: TriviaRoomHooks = {},
+    private readonly store: RoundStateStore = new MemoryRoundStateStore()
+  ) {
+    this.lobby = this.initialLobby();
+    this.duel = { wins: {}, outcome: null };
+  }
+
+  get name() {
+    return this.config.name;
+  }
+
+  // Socket.IO room every player socket joins
+  get channel() {
+    return `trivia:${this.config.name}`;
+  }
+
+  get playerCount() {
+    return this.players.length;
+  }
+
+  get currentPhase() {
+    return this.phase;
+  }
+
+  get isLeading() {
+    return this.leading;
+  }
+
+  // Played every round of its tournament
+  get finished() {
+    const tournament = this.config.tournament;
+    return !!tournament && this.round >= tournament.rounds;
+  }
+
+  public hasPlayer(userId: string) {
+    return this.players.some((u) => u.userId === userId);
+  }
+
+  public members() {
+    return this.players.map((u) => u.userId);
+  }
+
+  public summary() {
+    return {
+      name: this.config.name,
+      description: this.config.description,
+      users: this.players.length,
+      categories: this.lobby?.categories ?? this.config.categories,
+      difficulty: this.config.difficulty?.mode ?? "any",
+      scoring: (this.config.scoring ?? DEFAULT_SCORING).mode,
+      entryTokens: this.config.entryTokens,
+      rewardMultiplier: this.config.rewardMultiplier,
+      maxAttempts: this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      rakePercent: this.config.rakePercent ?? DEFAULT_RAKE_PERCENT,
+      tournament: this.config.tournament?.id ?? null,
+      private: !!this.config.private,
+      duel: this.config.duel?.id ?? null,
+    };
+  }
+
+  // ---------------------- PLAYERS ----------------------
+  public join(player: TriviaPlayer, inviteCode?: string) {
+    const tournament = this.config.tournament;
+    if (tournament && !tournament.players.includes(player.userId)) {
+      this.io.to(player.socketId).emit("quiz:error", {
+        message: "Only registered players can join this tournament",
+      });
+      return;
+    }
+    const duel = this.config.duel;
+    if (duel && !duel.players.includes(player.userId)) {
+      this.io.to(player.socketId).emit("quiz:error", {
+        message: "This duel is between two other players",
+      });
+      return;
+    }
+    const denied = this.privateAccessError(player.userId, inviteCode);
+    if (denied) {
+      this.io.to(player.socketId).emit("quiz:error", { message: denied });
+      return;
+    }
+    this.cancelEmptyCheck();
+
+    const exists = this.players.find((u) => u.userId === player.userId);
+    if (!exists) {
+      this.players.push(player);
+    } else {
+      this.players = this.players.map((u) =>
+        u.userId === player.userId ? { ...u, socketId: player.socketId } : u
+      );
+    }
+
+    this.io.in(player.socketId).socketsJoin(this.channel);
+    this.hooks.onPlayersChanged?.(this);
+    this.checkpoint();
+    this.io.to(player.socketId).emit("room:joined", { room: this.name });
+    this.emitLobby();
+
+    if (this.canStart()) {
+      console.log(
+        `🚀 Enough players in ${this.name}. Starting waiting period...`
+      );
+      this.startWaitingPeriod(true);
+      return;
+    }
+
+    this.syncState(player.socketId);
+  }
+
+  /**
+   * Re-attach a returning player's new socket and replay the current state
+   */
+  public reconnect(socketId: string, userId: string, exp: number) {
+    if (!this.hasPlayer(userId)) return;
+
+    this.players = this.players.map((u) =>
+      u.userId === userId ? { ...u, socketId, exp } : u
+    );
+    this.io.in(socketId).socketsJoin(this.channel);
+    this.checkpoint();
+
+    if (this.canStart()) {
+      this.startWaitingPeriod(true);
+      return;
+    }
+
+    this.syncState(socketId);
+  }
+
+  public leave(userId: string, socketId?: string) {
+    if (!this.hasPlayer(userId)) return;
+
+    this.players = this.players.filter((u) => u.userId !== userId);
+    if (socketId) this.io.in(socketId).socketsLeave(this.channel);
+    if (this.lobby?.host === userId && this.players.length > 0) {
+      this.lobby.host = this.players[0].userId;
+    }
+    this.hooks.onPlayersChanged?.(this);
+    this.emitLobby();
+    if (this.players.length === 0) this.scheduleEmptyCheck();
+
+    // Walking out of a duel: called off before the first question,
+    // forfeited after it
+    if (this.config.duel && !this.duel.outcome) {
+      const opponent = this.config.duel.players.find((id) => id !== userId)!;
+      this.endDuel(
+        this.round === 0
+          ? { winner: null, reason: "cancelled", wins: this.duel.wins }
+          : { winner: opponent, reason: "forfeit", wins: this.duel.wins }
+      );
+      return;
+    }
+
+    if (this.players.length < this.config.minPlayers && this.phase !== "idle") {
+      this.stop();
+      return;
+    }
+    this.checkpoint();
+  }
+
+  public updatePlayerExp(userId: string, exp: number) {
+    this.players = this.players.map((u) =>
+      u.userId === userId ? { ...u, exp } : u
+    );
+  }
+
+  /**
+   * Cancel every timer and void the in-flight round, refunding its entries
+   */
+  public stop(
+    message: string = "Not enough players. Waiting for more to join..."
+  ) {
+    const inFlight =
+      this.phase === "question" && this.question ? this.snapshot() : null;
+    const question = this.question;
+
+    this.clearTimers();
+    this.phase = "idle";
+    this.question = null;
+    this.options = null;
+    this.submissions = [];
+    this.questionStartTime = null;
+    this.waitStartTime = null;
+    this.checkpoint();
+
+    this.io.to(this.channel).emit("quiz:stopped", {
+      room: this.name,
+      message: inFlight?.submissions.some((s) => s.tokensSpent > 0)
+        ? `${message} Entry tokens refunded.`
+        : message,
+    });
+    if (inFlight) {
+      this.refundRound(inFlight, question).catch((err) =>
+        console.error(`❌ Error voiding round [${this.name}]:`, err)
+      );
+    }
+  }
+
+  /**
+   * Tear down for good (room closed): no timers and no stored checkpoint
+   */
+  public async close(message: string) {
+    this.closed = true;
+    this.cancelEmptyCheck();
+    // Only the leader has players to notify
+    if (this.leading) this.stop(message);
+    this.leading = false;
+    this.players = [];
+    await this.store.clear(this.name);
+  }
+
+  // ---------------------- HOST ----------------------
+  /**
+   * Host starts a game of lobby.questions rounds
+   */
+  public hostStart(userId: string, socketId: string) {
+    const error = !this.lobby
+      ? "Only private rooms are started by their host"
+      : this.lobby.host !== userId
+      ? "Only the host can start the game"
+      : this.lobby.roundsLeft > 0 || this.phase !== "idle"
+      ? "A game is already running"
+      : this.players.length < this.config.minPlayers
+      ? `At least ${this.config.minPlayers} players are needed to start`
+      : null;
+    if (error) {
+      this.io.to(socketId).emit("quiz:error", { message: error });
+      return;
+    }
+
+    this.lobby!.roundsLeft = this.lobby!.questions;
+    this.checkpoint();
+    this.emitLobby();
+    if (this.canStart()) this.startWaitingPeriod(true);
+  }
+
+  public kick(userId: string, targetUserId: string, socketId: string) {
+    const error = !this.lobby
+      ? "Players can only be removed from private rooms"
+      : this.lobby.host !== userId
+      ? "Only the host can remove players"
+      : targetUserId === userId
+      ? "The host can't remove themselves"
+      : !this.hasPlayer(targetUserId)
+      ? "Player is not in this room"
+      : null;
+    if (error) {
+      this.io.to(socketId).emit("quiz:error", { message: error });
+      return;
+    }
+
+    const target = this.players.find((u) => u.userId === targetUserId)!;
+    this.lobby!.kicked.push(targetUserId);
+    this.leave(targetUserId, target.socketId);
+    this.io.to(target.socketId).emit("room:kicked", {
+      room: this.name,
+      message: "You were removed from the room by the host",
+    });
+  }
+
+  /**
+   * Host changes the question count or categories between games
+   */
+  public configure(
+    userId: string,
+    socketId: string,
+    changes: { questions?: unknown; categories?: unknown }
+  ) {
+    try {
+      if (!this.lobby) throw new Error("Only private rooms can be configured");
+      if (this.lobby.host !== userId) {
+        throw new Error("Only the host can change the settings");
+      }
+      if (this.lobby.roundsLeft > 0) {
+        throw new Error("Settings can't change during a game");
+      }
+
+      const { questions, categories } = changes;
+      if (
+        questions !== undefined &&
+        (!Number.isInteger(questions) ||
+          (questions as number) < 1 ||
+          (questions as number) > MAX_PRIVATE_QUESTIONS)
+      ) {
+        throw new Error(
+          `questions must be a whole number from 1 to ${MAX_PRIVATE_QUESTIONS}`
+        );
+      }
+      if (categories !== undefined && !Array.isArray(categories)) {
+        throw new Error("categories must be an array");
+      }
+
+      if (questions !== undefined) this.lobby.questions = questions as number;
+      if (categories !== undefined) {
+        this.lobby.categories = [...new Set(categories.map(requireCategory))];
+      }
+    } catch (err: any) {
+      this.io.to(socketId).emit("quiz:error", { message: err.message });
+      return;
+    }
+
+    this.checkpoint();
+    this.emitLobby();
+  }
+
+  private initialLobby(): PrivateLobby | null {
+    const settings = this.config.private;
+    if (!settings) return null;
+    return {
+      host: settings.host,
+      questions: settings.questions,
+      categories: this.config.categories ?? [],
+      kicked: [],
+      roundsLeft: 0,
+    };
+  }
+
+  // Why this player may not join, if they may not
+  private privateAccessError(userId: string, inviteCode?: string) {
+    if (!this.lobby || this.hasPlayer(userId)) return null;
+    if (this.lobby.kicked.includes(userId)) {
+      return "You were removed from this room by the host";
+    }
+    if (inviteCode?.trim().toUpperCase() !== this.config.private!.inviteCode) {
+      return "This room is private, an invite code is needed to join";
+    }
+    return null;
+  }
+
+  // Private rooms keep their members up to date on the host's settings
+  private emitLobby() {
+    if (!this.lobby) return;
+    this.io.to(this.channel).emit("room:lobby", {
+      room: this.name,
+      inviteCode: this.config.private!.inviteCode,
+      host: this.lobby.host,
+      players: this.players.map(({ userId, username }) => ({
+        userId,
+        username,
+      })),
+      questions: this.lobby.questions,
+      categories: this.lobby.categories,
+      stake: this.config.entryTokens,
+      roundsLeft: this.lobby.roundsLeft,
+    });
+  }
+
+  private scheduleEmptyCheck() {
+    if (!this.lobby || !this.leading || this.emptyTimeout) return;
+    this.emptyTimeout = setTimeout(() => {
+      this.emptyTimeout = null;
+      if (this.leading && this.players.length === 0) {
+        console.log(`🧹 Private room ${this.name} is empty, closing`);
+        this.hooks.onEmpty?.(this);
+      }
+    }, EMPTY_ROOM_GRACE_MS);
+  }
+
+  private cancelEmptyCheck() {
+    if (this.emptyTimeout) clearTimeout(this.emptyTimeout);
+    this.emptyTimeout = null;
+  }
+
+  // ---------------------- LEADERSHIP ----------------------
+  /**
+   * This instance now drives the room: pick up from the last checkpoint
+   */
+  public async lead(checkpoint: RoundCheckpoint | null) {
+    this.leading = true;
+    if (checkpoint) await this.recover(checkpoint);
+    // Ended before the last leader could hand it over
+    if (this.finished) this.hooks.onFinished?.(this);
+    if (this.duel.outcome) this.hooks.onDuelOver?.(this, this.duel.outcome);
+    if (this.players.length === 0) this.scheduleEmptyCheck();
+  }
+
+  /**
+   * Another instance took over: drop timers and local state without
+   * checkpointing, the new leader restores from the stored one
+   */
+  public relinquish() {
+    this.leading = false;
+    this.clearTimers();
+    this.players = [];
+    this.phase = "idle";
+    this.question = null;
+    this.options = null;
+    this.submissions = [];
+    this.pending.clear();
+    this.streaks = {};
+    this.lobby = this.initialLobby();
+    this.duel = { wins: {}, outcome: null };
+    this.cancelEmptyCheck();
+    this.questionStartTime = null;
+    this.waitStartTime = null;
+  }
+
+  // ---------------------- RECOVERY ----------------------
+  /**
+   * Rebuild state from the last checkpoint after a restart or failover.
+   * A question with enough time left resumes and an interrupted payout
+   * is finished; otherwise the round is voided and every entry refunded.
+   */
+  public async recover(checkpoint: RoundCheckpoint) {
+    this.round = checkpoint.round;
+    this.submissionSequence = checkpoint.submissionSequence;
+    this.streaks = checkpoint.streaks ?? {};
+    if (this.lobby && checkpoint.lobby) this.lobby = checkpoint.lobby;
+    if (checkpoint.duel) this.duel = checkpoint.duel;
+    this.checkpointVersion = checkpoint.version;
+    this.players = checkpoint.players.map((p) => ({
+      ...p,
+      socketId: p.socketId ?? "",
+    }));
+    this.hooks.onPlayersChanged?.(this);
+
+    // Players that never come back shouldn't hold the room open
+    setTimeout(
+      () =>
+        this.pruneDisconnected().catch((err) =>
+          console.error(`❌ Error pruning players [${this.name}]:`, err)
+        ),
+      RECOVERY_GRACE_MS
+    );
+
+    const inFlight =
+      (checkpoint.phase === "question" || checkpoint.phase === "result") &&
+      checkpoint.questionId;
+    if (!inFlight) {
+      this.phase = "idle";
+      this.checkpoint();
+      return;
+    }
+
+    const questionId = new Types.ObjectId(checkpoint.questionId!);
+    const question = await gameService.getQuestionById(questionId);
+    const startedAt = checkpoint.questionStartTime ?? 0;
+    const remaining =
+      this.config.questionDuration - (Date.now() - startedAt) / 1000;
+    this.roundKey = checkpoint.roundKey ?? legacyRoundKey(checkpoint);
+
+    // Crashed while paying out: the round is recorded once everyone is
+    // paid, otherwise finish paying whoever wasn't
+    if (checkpoint.phase === "result") {
+      if (await triviaService.isRecorded(this.roundKey)) {
+        console.log(`✅ [${this.name}] Round ${this.round} already settled`);
+        this.phase = "idle";
+        this.checkpoint();
+        return;
+      }
+      if (question) {
+        console.log(
+          `♻️ [${this.name}] Finishing payout of round ${this.round}`
+        );
+        this.phase = "question";
+        this.question = question;
+        this.options = checkpoint.options ?? roundOptions(question);
+        this.questionStartTime = startedAt;
+        this.submissions = checkpoint.submissions;
+        await this.emitResults();
+        return;
+      }
+    }
+
+    if (
+      checkpoint.phase === "question" &&
+      question &&
+      remaining >= MIN_RESUME_SECONDS
+    ) {
+      console.log(
+        `♻️ [${this.name}] Resuming round ${this.round} with ${Math.floor(
+          remaining
+        )}s left`
+      );
+      this.phase = "question";
+      this.question = question;
+      this.options = checkpoint.options ?? roundOptions(question);
+      this.questionStartTime = startedAt;
+      this.submissions = checkpoint.submissions;
+
+      this.roundTimeout = setTimeout(() => {
+        this.roundTimeout = null;
+        if (this.phase === "question") this.emitResults();
+      }, remaining * 1000);
+      if (this.submissions.some((s) => s.correct)) this.scheduleResults();
+
+      this.io
+        .to(this.channel)
+        .emit("quiz:question", this.questionPayload(Math.floor(remaining)));
+      this.checkpoint();
+      return;
+    }
+
+    await this.voidRound(checkpoint, question);
+  }
+
+  private async voidRound(checkpoint: RoundCheckpoint, question: any) {
+    await this.refundRound(checkpoint, question);
+
+    this.phase = "idle";
+    this.question = null;
+    this.options = null;
+    this.questionStartTime = null;
+    this.submissions = [];
+    this.checkpoint();
+
+    this.io.to(this.channel).emit("quiz:stopped", {
+      room: this.name,
+      message: "⚠️ The last round was interrupted. Entry tokens refunded.",
+    });
+    if (this.finished) {
+      this.finish();
+    } else if (this.config.duel) {
+      const outcome = this.decideDuel();
+      if (outcome) this.endDuel(outcome);
+    }
+  }
+
+  /**
+   * Give back every entry of a round that won't be played out, put its
+   * question back in the pool and record it as voided. Safe to repeat:
+   * each refund is keyed on the round and player.
+   */
+  private async refundRound(checkpoint: RoundCheckpoint, question: any) {
+    const questionId = checkpoint.questionId!;
+    const roundKey = checkpoint.roundKey ?? legacyRoundKey(checkpoint);
+    console.warn(
+      `🧯 [${this.name}] Voiding round ${checkpoint.round}, refunding entries`
+    );
+
+    await this.refundEntries(roundKey, checkpoint.submissions);
+
+    try {
+      await gameService.releaseQuestion(new Types.ObjectId(questionId));
+      await triviaService.recordRound({
+        room: this.name,
+        round: checkpoint.round,
+        roundKey,
+        question: question ?? { _id: questionId, question: "", answer: "" },
+        startedAt: checkpoint.questionStartTime ?? Date.now(),
+        participants: checkpoint.players,
+        // Entries were refunded, so nothing was spent on this round
+        submissions: checkpoint.submissions.map((s) => ({
+          ...s,
+          tokensSpent: 0,
+        })),
+        selection: { winner: null, rule: WinnerRule.VOIDED, tiedUserIds: [] },
+        payouts: [],
+      });
+    } catch (err) {
+      console.error(`❌ Error closing voided round [${this.name}]:`, err);
+    }
+  }
+
+  // Each player gets back what they paid to enter the round
+  private async refundEntries(
+    roundKey: string,
+    submissions: TriviaSubmission[]
+  ) {
+    const spent = new Map<string, number>();
+    for (const s of submissions) {
+      spent.set(s.userId, (spent.get(s.userId) ?? 0) + s.tokensSpent);
+    }
+
+    for (const [userId, tokens] of spent) {
+      if (tokens <= 0) continue;
+      try {
+        await gameService.refundTokens(
+          new Types.ObjectId(userId),
+          tokens,
+          `${roundKey}:${userId}`
+        );
+      } catch (err) {
+        console.error(`❌ Refund failed for ${userId} [${this.name}]:`, err);
+      }
+    }
+  }
+
+  private async pruneDisconnected() {
+    for (const u of this.players) {
+      // Looks across every instance when a cluster adapter is installed
+      const sockets = u.socketId
+        ? await this.io.in(u.socketId).fetchSockets()
+        : [];
+      if (sockets.length === 0) this.leave(u.userId);
+    }
+  }
+
+  private snapshot(): RoundCheckpoint {
+    // Strictly increasing across restarts as well
+    this.checkpointVersion = Math.max(this.checkpointVersion + 1, Date.now());
+
+    return {
+      room: this.name,
+      version: this.checkpointVersion,
+      config: this.config,
+      phase: this.phase,
+      round: this.round,
+      roundKey: this.roundKey,
+      questionId: this.question?._id?.toString() ?? null,
+      questionStartTime: this.questionStartTime,
+      options: this.options,
+      submissions: this.submissions,
+      submissionSequence: this.submissionSequence,
+      streaks: this.streaks,
+      lobby: this.lobby,
+      duel: this.config.duel ? this.duel : null,
+      players: this.players.map(({ userId, username, exp, socketId }) => ({
+        userId,
+        username,
+        exp,
+        socketId,
+      })),
+    };
+  }
+
+  private checkpoint() {
+    if (this.closed || !this.leading) return;
+    this.store
+      .save(this.snapshot())
+      .catch((err) =>
+        console.error(`❌ Failed to checkpoint [${this.name}]:`, err)
+      );
+  }
+
+  // ---------------------- ANSWERS ----------------------
+  /**
+   * answer is free text, or an option index for choice questions.
+   * receivedAt is stamped by the instance the socket is connected to,
+   * before any await, so DB latency can't reorder players
+   */
+  public async submitAnswer(
+    socketId: string,
+    userId: string,
+    username: string,
+    answer: string | number,
+    receivedAt: number = Date.now()
+  ) {
+    const sequence = ++this.submissionSequence;
+
+    if (!this.hasPlayer(userId)) return;
+    if (this.phase !== "question" || !this.question || !this.questionStartTime)
+      return;
+
+    const elapsed = Math.floor((receivedAt - this.questionStartTime) / 1000);
+    if (elapsed >= this.config.questionDuration) return;
+
+    // Reject malformed picks before charging for them
+    const options = this.options;
+    const chosen = options
+      ? resolveChoice(options, answer)
+      : typeof answer === "string"
+      ? answer.trim()
+      : null;
+    if (!chosen) {
+      this.io.to(socketId).emit("quiz:error", {
+        message: options
+          ? "Pick one of the listed options"
+          : "Answer must be text",
+      });
+      return;
+    }
+
+    if (this.pending.has(userId)) {
+      this.io.to(socketId).emit("quiz:error", {
+        message: "Your last answer is still being processed",
+      });
+      return;
+    }
+    const maxAttempts = this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const attempts = this.submissions.filter((s) => s.userId === userId);
+    if (attempts.length >= maxAttempts || attempts.some((s) => s.correct)) {
+      this.io.to(socketId).emit("quiz:error", {
+        message:
+          maxAttempts === 1
+            ? "Your answer is locked in"
+            : "No attempts left this round",
+      });
+      return;
+    }
+
+    // The entry fee is charged once, with the first answer
+    const question = this.question;
+    const reference = `${this.roundKey}:${userId}`;
+    const entering = attempts.length === 0;
+    if (entering && this.config.entryTokens > 0) {
+      this.pending.add(userId);
+      let updatedUser;
+      try {
+        updatedUser = await gameService.useToken(
+          new Types.ObjectId(userId),
+          this.config.entryTokens,
+          reference
+        );
+      } finally {
+        this.pending.delete(userId);
+      }
+      if (!updatedUser) {
+        this.io.to(socketId).emit("quiz:error", {
+          message: "User not found or insufficient tokens",
+        });
+        return;
+      }
+
+      this.io.to(socketId).emit("quiz:userUpdate", {
+        tokens: updatedUser.tokens,
+        balance: updatedUser.balance,
+        exp: updatedUser.exp,
+      });
+
+      // The round ended while the fee was being charged: give it back
+      if (this.question !== question) {
+        await gameService
+          .refundTokens(
+            new Types.ObjectId(userId),
+            this.config.entryTokens,
+            reference
+          )
+          .catch((err) =>
+            console.error(`❌ Refund failed for ${userId} [${this.name}]:`, err)
+          );
+        return;
+      }
+    }
+
+    // Options are exact; only free text gets fuzzy matching
+    const correct = options
+      ? chosen === question.answer
+      : isCorrectAnswer(chosen, question, this.config.answerMatching);
+
+    this.submissions.push({
+      userId,
+      username,
+      answer: chosen,
+      receivedAt,
+      sequence,
+      correct,
+      tokensSpent: entering ? this.config.entryTokens : 0,
+    });
+    this.checkpoint();
+
+    if (entering) {
+      this.io.to(this.channel).emit("quiz:pool", {
+        room: this.name,
+        round: this.round,
+        ...this.currentPool(),
+      });
+    }
+
+    // First correct answer starts the countdown to results
+    if (correct) this.scheduleResults();
+  }
+
+  // ---------------------- STATE SYNC ----------------------
+  private syncState(socketId: string) {
+    if (this.phase === "question" && this.question && this.questionStartTime) {
+      const elapsed = Math.floor((Date.now() - this.questionStartTime) / 1000);
+      this.io
+        .to(socketId)
+        .emit(
+          "quiz:question",
+          this.questionPayload(
+            Math.max(this.config.questionDuration - elapsed, 0)
+          )
+        );
+      return;
+    }
+
+    if (this.phase === "waiting" && this.waitStartTime) {
+      const elapsed = Math.floor((Date.now() - this.waitStartTime) / 1000);
+      const timeLeft = Math.max(this.config.waitDuration - elapsed, 0);
+      if (timeLeft > 0) {
+        this.io
+          .to(socketId)
+          .emit("quiz:waiting", { room: this.name, timeLeft });
+      }
+    }
+  }
+
+  private questionPayload(timeLeft: number) {
+    return {
+      room: this.name,
+      round: this.round,
+      questionId: this.question?._id,
+      title: this.question?.question,
+      category: this.question?.category,
+      difficulty: this.question?.difficulty,
+      type: this.question?.type ?? QuestionType.FREE_TEXT,
+      // Shuffled per round; players answer with the index
+      options: this.options ?? undefined,
+      reward_amount: this.rewardAmount(),
+      entryTokens: this.config.entryTokens,
+      maxAttempts: this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      pool: this.currentPool(),
+      timeLeft,
+    };
+  }
+
+  private rewardAmount() {
+    return Math.round(
+      (this.question?.reward_amount || 0) * this.config.rewardMultiplier
+    );
+  }
+
+  private currentPool() {
+    return prizePool({
+      submissions: this.submissions,
+      house: this.rewardAmount(),
+      rakePercent: this.config.rakePercent,
+    });
+  }
+
+  private canStart() {
+    return (
+      this.leading &&
+      this.players.length >= this.config.minPlayers &&
+      this.phase === "idle" &&
+      !this.finished &&
+      !this.duel.outcome &&
+      // Private games only run once the host starts them
+      (!this.lobby || this.lobby.roundsLeft > 0)
+    );
+  }
+
+  // ---------------------- GAME FLOW ----------------------
+  private startWaitingPeriod(emitToAll = false) {
+    if (this.waitTimeout) clearTimeout(this.waitTimeout);
+    // Leadership moved while a payout was in flight
+    if (!this.leading) return;
+
+    this.phase = "waiting";
+    this.waitStartTime = Date.now();
+    this.checkpoint();
+    console.log(
+      `⏳ [${this.name}] Waiting period started (${this.config.waitDuration}s)`
+    );
+
+    if (emitToAll) {
+      this.io.to(this.channel).emit("quiz:waiting", {
+        room: this.name,
+        timeLeft: this.config.waitDuration,
+      });
+    }
+
+    this.waitTimeout = setTimeout(() => {
+      console.log(
+        `⏰ [${this.name}] Waiting finished, starting new question...`
+      );
+      this.waitTimeout = null;
+      this.waitStartTime = null;
+      this.startNewQuestion().catch((err) =>
+        console.error("startNewQuestion error:", err)
+      );
+    }, this.config.waitDuration * 1000);
+  }
+
+  private async startNewQuestion() {
+    if (this.startingQuestion) return;
+    this.startingQuestion = true;
+
+    try {
+      if (this.players.length < this.config.minPlayers) {
+        console.log(
+          `⚠️ Not enough players in ${this.name} to start a question.`
+        );
+        this.stop();
+        return;
+      }
+
+      // Claim the duel before its join deadline can call it off
+      if (this.config.duel && this.round === 0 && this.hooks.onDuelStart) {
+        if (!(await this.hooks.onDuelStart(this))) {
+          this.endDuel({
+            winner: null,
+            reason: "cancelled",
+            wins: this.duel.wins,
+          });
+          return;
+        }
+      }
+
+      const q = await gameService.getAndUpdateQuestion({
+        categories: this.lobby?.categories ?? this.config.categories,
+        difficulty: targetDifficulty(
+          this.config.difficulty,
+          this.round + 1,
+          this.players.map((u) => u.exp)
+        ),
+        room: this.name,
+        playerIds: this.players.map((u) => u.userId),
+        policy: this.config.rotation,
+      });
+      if (!q) {
+        this.io.to(this.channel).emit("quiz:end", {
+          room: this.name,
+          message: "No more questions available!",
+        });
+        this.phase = "idle";
+        return;
+      }
+
+      this.phase = "question";
+      this.round++;
+      this.roundKey = randomUUID();
+      if (this.lobby) this.lobby.roundsLeft--;
+      this.question = q;
+      this.options = roundOptions(q);
+      this.questionStartTime = Date.now();
+      this.submissions = [];
+      this.checkpoint();
+
+      console.log(
+        `📝 [${this.name}] Starting Round ${this.round} (${q.difficulty}): ${q.question}`
+      );
+
+      this.io
+        .to(this.channel)
+        .emit(
+          "quiz:question",
+          this.questionPayload(this.config.questionDuration)
+        );
+
+      if (this.roundTimeout) clearTimeout(this.roundTimeout);
+
+      this.roundTimeout = setTimeout(() => {
+        this.roundTimeout = null;
+        if (this.phase === "question") {
+          this.emitResults();
+        }
+      }, this.config.questionDuration * 1000);
+    } catch (err) {
+      console.error(`❌ Error in startNewQuestion [${this.name}]:`, err);
+      this.phase = "idle";
+      this.io.to(this.channel).emit("quiz:error", {
+        message: "Failed to fetch question",
+      });
+    } finally {
+      this.startingQuestion = false;
+    }
+  }
+
+  private scheduleResults() {
+    if (this.resultTimeout || !this.leading) return;
+    this.resultTimeout = setTimeout(() => {
+      this.emitResults();
+    }, this.config.resultDelay * 1000);
+  }
+
+  private async emitResults() {
+    if (this.phase !== "question" || !this.question) return;
+
+    const correctAnswer = this.question?.answer;
+    if (!correctAnswer) return;
+
+    this.phase = "result";
+    this.checkpoint();
+    if (this.roundTimeout) clearTimeout(this.roundTimeout);
+    this.roundTimeout = null;
+    if (this.resultTimeout) clearTimeout(this.resultTimeout);
+    this.resultTimeout = null;
+
+    const question = this.question;
+    const round = this.round;
+    const roundKey = this.roundKey!;
+    const pool = this.currentPool();
+    const startedAt = this.questionStartTime ?? Date.now();
+    const submissions = [...this.submissions];
+    const options = this.options;
+
+    const selection = selectWinner(submissions);
+    const selectedWinner = selection.winner;
+    const scoring = this.config.scoring ?? DEFAULT_SCORING;
+    const scores = scoreRound({
+      submissions,
+      startedAt,
+      durationMs: this.config.questionDuration * 1000,
+      reward: pool.total,
+      policy: scoring,
+      streaks: this.streaks,
+    });
+    const scoreOf = new Map(scores.map((s) => [s.userId, s]));
+    if (this.config.duel && selectedWinner) {
+      const wins = this.duel.wins;
+      wins[selectedWinner.userId] = (wins[selectedWinner.userId] ?? 0) + 1;
+    }
+
+    // Streaks continue only for players correct this round
+    this.streaks = Object.fromEntries(
+      scores.filter((s) => s.correct).map((s) => [s.userId, s.streak])
+    );
+
+    // Pay each player separately so one failure doesn't cost the others
+    const paid: PlayerScore[] = [];
+    for (const score of scores) {
+      if (score.amount <= 0) continue;
+      const reference = `${roundKey}:${score.userId}`;
+      try {
+        const rewardedUser = await gameService
+          .addBalance(
+            new Types.ObjectId(score.userId),
+            score.amount,
+            LedgerReason.TRIVIA_REWARD,
+            reference
+          )
+          .catch((err) => {
+            // Already paid before a restart
+            if (err instanceof AlreadyPostedError) return null;
+            throw err;
+          });
+        paid.push(score);
+        if (!rewardedUser) continue;
+
+        const newExp = await gameService.updateExp(
+          score.userId,
+          (rewardedUser!.exp ?? 0) + 1
+        );
+        this.updatePlayerExp(score.userId, newExp);
+        this.hooks.onPlayerExp?.(score.userId, newExp);
+      } catch (err) {
+        console.error(
+          `❌ Error rewarding ${score.username} [${this.name}]:`,
+          err
+        );
+      }
+    }
+
+    // Private tables take no rake: when nobody wins the pot, every stake
+    // goes back instead of staying with the house
+    const refunded = !!this.config.private && !selectedWinner && pool.fees > 0;
+    if (refunded) await this.refundEntries(roundKey, submissions);
+
+    let winnerInfo: {
+      userId: string;
+      username: string;
+      reward: number;
+      exp: number;
+    } | null = null;
+
+    try {
+      if (selectedWinner) {
+        await gameService.markAnswered(
+          question?._id,
+          new Types.ObjectId(selectedWinner.userId)
+        );
+
+        winnerInfo = {
+          userId: selectedWinner.userId,
+          username: selectedWinner.username,
+          reward:
+            paid.find((p) => p.userId === selectedWinner.userId)?.amount ?? 0,
+          exp:
+            this.players.find((u) => u.userId === selectedWinner.userId)?.exp ??
+            0,
+        };
+      }
+    } catch (err) {
+      console.error(`❌ Error rewarding winner [${this.name}]:`, err);
+    }
+
+    let roundId: string | null = null;
+    try {
+      const record = await triviaService.recordRound({
+        room: this.name,
+        round,
+        roundKey,
+        question,
+        startedAt,
+        participants: this.players.map((u) => ({
+          userId: u.userId,
+          username: u.username,
+        })),
+        // Refunded entries cost nothing, as for a voided round
+        submissions: refunded
+          ? submissions.map((s) => ({ ...s, tokensSpent: 0 }))
+          : submissions,
+        selection,
+        scoring: scoring.mode,
+        entryTokens: this.config.entryTokens,
+        pool: refunded ? undefined : pool,
+        payouts: paid.map((p) => ({
+          userId: p.userId,
+          amount: p.amount,
+          points: p.points,
+        })),
+      });
+      roundId = record._id!.toString();
+    } catch (err) {
+      console.error(`❌ Error recording round [${this.name}]:`, err);
+    }
+
+    if (this.config.tournament) {
+      try {
+        await this.hooks.onRoundScored?.(this, round, scores);
+      } catch (err) {
+        console.error(`❌ Error saving tournament scores [${this.name}]:`, err);
+      }
+    }
+
+    const base = {
+      room: this.name,
+      round,
+      roundId,
+      rule: selection.rule,
+      scoring: scoring.mode,
+      pool,
+      refunded,
+      correctAnswer,
+      ...(options && { correctIndex: options.indexOf(correctAnswer) }),
+      waitTime: this.config.waitDuration,
+      winner: winnerInfo,
+      // Everyone's result, fastest correct first
+      scores: [...scores].sort(
+        (a, b) => (a.place ?? Infinity) - (b.place ?? Infinity)
+      ),
+    };
+
+    const winnerSocket = this.players.find(
+      (u) => u.userId === selectedWinner?.userId
+    )?.socketId;
+    if (winnerInfo && winnerSocket) {
+      this.io.to(winnerSocket).emit("quiz:winner", {
+        ...winnerInfo,
+        ...base,
+        score: scoreOf.get(winnerInfo.userId) ?? null,
+        message: `${winnerInfo.username} won Round ${round}! 🎉`,
+      });
+    }
+
+    for (const u of this.players) {
+      const score = scoreOf.get(u.userId) ?? null;
+      const payload = { ...base, score };
+
+      if (!score) {
+        this.io.to(u.socketId).emit("quiz:end", {
+          ...payload,
+          message: "⏰ No response submitted.",
+        });
+      } else if (score.correct) {
+        if (selectedWinner && u.userId === selectedWinner.userId) continue;
+        this.io.to(u.socketId).emit("quiz:end", {
+          ...payload,
+          message:
+            score.amount > 0
+              ? `✅ Correct! #${score.place}, you earned ${score.amount}.`
+              : selection.tiedUserIds.includes(u.userId)
+              ? "✅ Correct, tied on time but received just after the winner!"
+              : "✅ Correct, but not the fastest!",
+        });
+      } else {
+        this.io.to(u.socketId).emit("quiz:end", {
+          ...payload,
+          message: refunded
+            ? "❌ Wrong answer! Nobody got it, so stakes were refunded."
+            : "❌ Wrong answer!",
+        });
+      }
+    }
+
+    this.question = null;
+    this.options = null;
+    this.questionStartTime = null;
+    this.submissions = [];
+
+    const duelOutcome = this.config.duel ? this.decideDuel() : null;
+    if (this.finished) {
+      this.finish();
+    } else if (duelOutcome) {
+      this.endDuel(duelOutcome);
+    } else if (this.lobby?.roundsLeft === 0) {
+      this.endGame();
+    } else if (this.players.length >= this.config.minPlayers) {
+      this.startWaitingPeriod(false);
+    } else {
+      this.stop();
+    }
+  }
+
+  /**
+   * Best of N: over once a player can't be caught or every round was
+   * played. Level after every round is a draw.
+   */
+  private decideDuel(): DuelOutcome | null {
+    const { players, bestOf } = this.config.duel!;
+    const wins = this.duel.wins;
+    const [a, b] = players.map((id) => wins[id] ?? 0);
+    const needed = Math.floor(bestOf / 2) + 1;
+    if (a < needed && b < needed && this.round < bestOf) return null;
+
+    if (a === b) return { winner: null, reason: "draw", wins };
+    return { winner: a > b ? players[0] : players[1], reason: "won", wins };
+  }
+
+  private endDuel(outcome: DuelOutcome) {
+    this.clearTimers();
+    this.phase = "idle";
+    this.question = null;
+    this.options = null;
+    this.questionStartTime = null;
+    this.submissions = [];
+    this.duel.outcome = outcome;
+    this.checkpoint();
+
+    const winner = this.players.find((u) => u.userId === outcome.winner);
+    this.io.to(this.channel).emit("duel:over", {
+      room: this.name,
+      ...outcome,
+      message:
+        outcome.reason === "cancelled"
+          ? "🚪 The duel was called off before it began. Stakes refunded."
+          : outcome.reason === "draw"
+          ? "🤝 It's a draw! Stakes refunded."
+          : outcome.reason === "forfeit"
+          ? "🏳️ Your opponent left the duel. You win by forfeit!"
+          : `🏆 ${winner?.username ?? "Your opponent"} wins the duel!`,
+    });
+    this.hooks.onDuelOver?.(this, outcome);
+  }
+
+  /**
+   * The host's game is over; the room waits for them to start another
+   */
+  private endGame() {
+    this.clearTimers();
+    this.phase = "idle";
+    this.checkpoint();
+
+    this.io.to(this.channel).emit("room:gameOver", {
+      room: this.name,
+      message: "🏁 Game over! The host can start another one.",
+    });
+    this.emitLobby();
+  }
+
+  /**
+   * Last tournament round is over: no more rounds, settlement takes it
+   * from here
+   */
+  private finish() {
+    this.clearTimers();
+    this.phase = "idle";
+    this.checkpoint();
+
+    this.io.to(this.channel).emit("tournament:over", {
+      room: this.name,
+      tournamentId: this.config.tournament?.id,
+      rounds: this.round,
+      message: "🏁 That was the last round! Tallying the final standings...",
+    });
+    this.hooks.onFinished?.(this);
+  }
+
+  private clearTimers() {
+    if (this.roundTimeout) clearTimeout(this.roundTimeout);
+    if (this.waitTimeout) clearTimeout(this.waitTimeout);
+    if (this.resultTimeout) clearTimeout(this.resultTimeout);
+    this.roundTimeout = null;
+    this.waitTimeout = null;
+    this.resultTimeout = null;
+  }
+}
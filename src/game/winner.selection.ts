@@ -0,0 +1,74 @@
+/**
+ * Trivia winner selection. The winner is the first correct submission by
+ * the time the server received it; submissions received in the same
+ * millisecond are ordered by the room's arrival sequence.
+ */
+
+export type TriviaSubmission = {
+  userId: string;
+  username: string;
+  answer: string;
+  receivedAt: number; // server clock, ms since epoch
+  sequence: number; // arrival order within the room
+  correct: boolean;
+  tokensSpent: number; // entry tokens charged for this attempt
+};
+
+export enum WinnerRule {
+  FIRST_CORRECT = "first_correct",
+  FIRST_CORRECT_TIE_SEQUENCE = "first_correct_tie_broken_by_arrival",
+  NO_CORRECT_ANSWER = "no_correct_answer",
+  VOIDED = "round_voided", // server restarted mid-round, entries refunded
+}
+
+export type WinnerSelection = {
+  winner: TriviaSubmission | null;
+  rule: WinnerRule;
+  tiedUserIds: string[]; // other players correct in the same millisecond
+};
+
+export const byArrival = (a: TriviaSubmission, b: TriviaSubmission) =>
+  a.receivedAt - b.receivedAt || a.sequence - b.sequence;
+
+export function selectWinner(submissions: TriviaSubmission[]): WinnerSelection {
+  const correct = submissions.filter((s) => s.correct).sort(byArrival);
+  if (correct.length === 0) {
+    return {
+      winner: null,
+      rule: WinnerRule.NO_CORRECT_ANSWER,
+      tiedUserIds: [],
+    };
+  }
+
+  const [winner] = correct;
+  const tiedUserIds = [
+    ...new Set(
+      correct
+        .filter(
+          (s) =>
+            s.receivedAt === winner.receivedAt && s.userId !== winner.userId
+        )
+        .map((s) => s.userId)
+    ),
+  ];
+
+  return {
+    winner,
+    rule:
+      tiedUserIds.length > 0
+        ? WinnerRule.FIRST_CORRECT_TIE_SEQUENCE
+        : WinnerRule.FIRST_CORRECT,
+    tiedUserIds,
+  };
+}
+
+/**
+ * Latest submission per player, which is what the player sees as "their" answer
+ */
+export function latestByPlayer(submissions: TriviaSubmission[]) {
+  const latest = new Map<string, TriviaSubmission>();
+  for (const s of [...submissions].sort(byArrival)) {
+    latest.set(s.userId, s);
+  }
+  return latest;
+}
@@ -4,6 +4,15 @@ export enum Platform {
   "TIKTOK" = "tiktok",
   "FACEBOOK" = "facebook",
 }
+export enum UserRole {
+  USER = "user",
+  ADMIN = "admin",
+}
+export enum QuestionType {
+  FREE_TEXT = "free-text",
+  MULTIPLE_CHOICE = "multiple-choice",
+  TRUE_FALSE = "true-false",
+}
 /* ---------------- Game DB ---------------- */
 export interface GameUserInterface extends Document {
   username: string;
@@ -15,23 +24,261 @@ export interface GameUserInterface extends Document {
   referral_code: string;
   no_of_referrals: number;
   referred_by: Types.ObjectId;
+  role: UserRole;
+}
+
+export interface ITriviaSubmission {
+  user_id: Types.ObjectId;
+  username: string;
+  answer: string;
+  received_at: Date;
+  sequence: number;
+  correct: boolean;
+  tokens_spent: number;
+}
+
+export interface ITriviaPayout {
+  user_id: Types.ObjectId;
+  amount: number; // balance units
+  points?: number | null; // speed points, see game/scoring.ts
+}
+
+export interface ITriviaPool {
+  entries: number;
+  fees: number; // balance units
+  rake: number;
+  house: number;
+  total: number;
+}
+
+export interface ITriviaRound extends Document {
+  room: string;
+  round: number;
+  round_key: string | null; // unique per round, null for older records
+  question_id: Types.ObjectId | null;
+  question: string;
+  correct_answer: string;
+  started_at: Date;
+  ended_at: Date;
+  participants: { user_id: Types.ObjectId; username: string }[];
+  submissions: ITriviaSubmission[];
+  winner_id: Types.ObjectId | null;
+  winner_username: string | null;
+  rule: string; // see WinnerRule
+  scoring: string; // see ScoringMode
+  entry_tokens: number; // fee per player, in tokens
+  pool: ITriviaPool | null; // null for rounds voided or played before pools
+  tied_user_ids: Types.ObjectId[];
+  reward: number;
+  payouts: ITriviaPayout[];
+  createdAt: Date;
+}
+
+export interface ITriviaRoomState extends Document {
+  room: string;
+  version: number; // only newer snapshots may overwrite
+  state: Record<string, unknown>; // see RoundCheckpoint
+  updatedAt: Date;
+}
+
+export interface ITournamentScore {
+  user_id: Types.ObjectId;
+  username: string;
+  correct: boolean;
+  points: number;
+  response_ms: number | null;
+}
+
+export interface ITournamentStanding {
+  user_id: Types.ObjectId;
+  username: string;
+  place: number;
+  points: number; // summed over every round
+  correct: number; // rounds answered correctly
+  prize: number; // balance units
+}
+
+export interface ITournament extends Document {
+  name: string;
+  room: string; // trivia room opened at the start time
+  starts_at: Date;
+  entry_tokens: number; // charged once, on registration
+  rounds: number;
+  categories: string[]; // empty = any category
+  prizes: number[]; // balance units by place, first place first
+  status: "scheduled" | "running" | "settling" | "finished" | "cancelled";
+  settling_job: Types.ObjectId | null; // the settle job paying it out
+  players: { user_id: Types.ObjectId; username: string; registered_at: Date }[];
+  results: { round: number; scores: ITournamentScore[] }[];
+  standings: ITournamentStanding[];
+  created_by: Types.ObjectId | null;
+  started_at: Date | null;
+  ends_at: Date | null; // settled by then even if rounds are left
+  finished_at: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IDuel extends Document {
+  room: string;
+  players: {
+    user_id: Types.ObjectId;
+    username: string;
+    exp: number; // when matched
+    wins: number; // rounds won
+  }[];
+  best_of: number;
+  stake: number; // tokens escrowed from each player
+  pot: number; // balance units paid to the winner
+  status: "running" | "won" | "draw" | "forfeit" | "cancelled";
+  winner_id: Types.ObjectId | null;
+  started_at: Date | null; // first question asked, past the join deadline
+  finished_at: Date | null;
+  settled_at: Date | null; // pot paid or stakes refunded
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ---------------- Pick a Row ---------------- */
+export interface IFairnessSeed extends Document {
+  user_id: Types.ObjectId;
+  server_seed: string; // secret until rotated
+  server_seed_hash: string; // sha256(server_seed), shown before every play
+  nonce: number; // last nonce used with this seed
+  active: boolean;
+  revealed_at: Date | null;
+  createdAt: Date;
+}
+
+export interface IPickARowConfig extends Document {
+  game: "pick-a-row";
+  rows: number;
+  payout_multiplier: number; // win pays stake value × multiplier
+  min_stake: number; // tokens
+  max_stake: number; // tokens
+  daily_loss_limit: number; // balance units lost per user per UTC day
+  rtp_min: number; // allowed expected return per stake, e.g. 0.9
+  rtp_max: number;
+  updated_by: Types.ObjectId | null;
+  updatedAt: Date;
+}
+
+export interface IPickARowPlay extends Document {
+  user_id: Types.ObjectId;
+  stake_tokens: number;
+  user_row: number;
+  winning_row: number;
+  rows: number;
+  payout_multiplier: number;
+  won: boolean;
+  payout: number; // balance units
+  seed_id: Types.ObjectId;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  createdAt: Date;
+}
+
+export interface IPickARowDailyLoss extends Document {
+  user_id: Types.ObjectId;
+  day: string; // UTC date, YYYY-MM-DD
+  loss: number; // balance units, stakes minus payouts
+  updatedAt: Date;
+}
+
+/* ---------------- Ledger ---------------- */
+export enum LedgerAsset {
+  TOKEN = "token",
+  BALANCE = "balance",
+}
+
+export enum LedgerReason {
+  TOKEN_PURCHASE = "token_purchase",
+  REFERRAL_BONUS = "referral_bonus",
+  TOKEN_STAKE = "token_stake",
+  TRIVIA_REWARD = "trivia_reward",
+  TRIVIA_REFUND = "trivia_refund",
+  PICKAROW_PAYOUT = "pickarow_payout",
+  BALANCE_CONVERSION = "balance_conversion",
+  WITHDRAWAL_HOLD = "withdrawal_hold",
+  WITHDRAWAL_REFUND = "withdrawal_refund",
+  WITHDRAWAL_PAYOUT = "withdrawal_payout",
+  OPENING_BALANCE = "opening_balance",
+  TOURNAMENT_ENTRY = "tournament_entry",
+  TOURNAMENT_REFUND = "tournament_refund",
+  TOURNAMENT_PRIZE = "tournament_prize",
+  DUEL_STAKE = "duel_stake",
+  DUEL_REFUND = "duel_refund",
+  DUEL_PAYOUT = "duel_payout",
+}
+
+export interface LedgerEntry {
+  account: string; // "user:<id>" or one of the system accounts
+  user_id: Types.ObjectId | null; // set only for user accounts
+  asset: LedgerAsset;
+  amount: number; // positive = credit, negative = debit
 }
 
 export interface TransactionInterface extends Document {
-  userId: Types.ObjectId; // ref to GameUser
-  tokensPurchased: number;
+  reason: LedgerReason;
+  reference_id: string | null; // withdrawal id, question id, play id...
+  entries: LedgerEntry[];
+  metadata?: Record<string, unknown>;
   createdAt: Date;
 }
 
 export interface IQuestion extends Document {
   question: string;
   answer: string;
-  category?: string;
+  acceptable_answers?: string[]; // aliases also marked correct
+  type?: QuestionType;
+  options?: string[]; // choice questions only, includes the answer
+  category?: string; // id from game/categories.ts
   difficulty?: string;
   used: boolean;
   answered_by: Types.ObjectId;
+  answered_at?: Date | null;
+  times_used: number;
+  last_used_at?: Date | null; // last time a room reserved it
   reward_amount: number;
+  retired: boolean; // kept for history but never picked again
+  retired_at?: Date | null;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IQuestionQuarantine extends Document {
+  source: string; // provider that generated it
+  raw: unknown; // item exactly as generated
+  candidate: Record<string, unknown> | null; // normalised, if it parsed
+  reasons: string[];
+  score: number; // 0-1 quality score
+  similar_to: Types.ObjectId | null; // closest question in the bank
+  similarity: number | null;
+  status: "pending" | "approved" | "rejected";
+  question_id: Types.ObjectId | null; // set once approved
+  reviewed_by?: Types.ObjectId | null;
+  reviewed_at?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IJob extends Document {
+  type: string; // see JobWorker.register
+  payload: Record<string, unknown>;
+  status: "queued" | "running" | "succeeded" | "failed";
+  attempts: number;
+  max_attempts: number;
+  run_at: Date; // not picked up before this
+  locked_by: string | null; // instance running it
+  locked_at: Date | null;
+  last_error: string | null;
+  result: unknown;
+  dedupe_key?: string; // at most one unfinished job per key
+  requested_by: Types.ObjectId | null; // admin, or null for the system
+  finished_at: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface IWithdrawal extends Document {
@@ -39,6 +286,26 @@ export interface IWithdrawal extends Document {
   amount: number;
   status: "pending" | "approved" | "rejected";
   method: string; // e.g. bank, crypto, paypal
+  reviewed_by?: Types.ObjectId | null;
+  reviewed_at?: Date | null;
+  rejection_reason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface IWithdrawalAudit extends Document {
+  withdrawalId: Types.ObjectId;
+  actorId: Types.ObjectId; // admin who acted
+  previous_status: IWithdrawal["status"];
+  new_status: IWithdrawal["status"];
+  reason?: string | null;
+  createdAt: Date;
+}
+
+/* ---------------- Auth ---------------- */
+export interface AuthPayload {
+  userId: string;
+  username: string;
+  type: "access" | "refresh";
+  exp?: number; // seconds since epoch, set by jwt
+}
@@ -0,0 +1,146 @@
+import { NextFunction, Request, Response } from "express";
+import { Socket } from "socket.io";
+import { Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { AuthPayload, UserRole } from "../interfaces/interface";
+import { authService } from "../service/auth.service";
+import { AuthError } from "../service/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthPayload;
+    }
+  }
+}
+
+/**
+ * Verify the bearer token and attach its claims to req.auth
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({ message: "Missing bearer token" });
+  }
+
+  try {
+    req.auth = authService.verify(token);
+    return next();
+  } catch (error: any) {
+    return res.status(401).json({ message: error.message });
+  }
+};
+
+/**
+ * Reject requests whose user id (params or body) is not the token owner
+ */
+export const requireSelf = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const claimed = [
+    req.params?.user_id,
+    req.body?.user_id,
+    req.body?.userId,
+  ].filter(Boolean);
+
+  if (claimed.some((id) => String(id) !== req.auth?.userId)) {
+    return res
+      .status(403)
+      .json({ message: "You can only act on your own account" });
+  }
+
+  return next();
+};
+
+/**
+ * Only let admins through. The role is read from the database so a
+ * demotion takes effect without waiting for the token to expire.
+ */
+export const requireAdmin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await GameUserRepository.findById(
+      new Types.ObjectId(req.auth?.userId)
+    ).select("role");
+
+    if (user?.role !== UserRole.ADMIN) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    return next();
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message });
+  }
+};
+
+/**
+ * Socket.IO handshake middleware: clients pass the token in
+ * `io(url, { auth: { token } })`
+ */
+export const socketAuthenticate = (
+  socket: Socket,
+  next: (err?: Error) => void
+) => {
+  const token =
+    socket.handshake.auth?.token ||
+    (socket.handshake.query?.token as string | undefined);
+
+  if (!token) return next(new AuthError("Missing token"));
+
+  try {
+    socket.data.auth = authService.verify(token);
+    return next();
+  } catch (error: any) {
+    return next(error);
+  }
+};
+
+/**
+ * Resolve the acting user for a socket event. Returns null when the token
+ * has expired or the payload claims a different user.
+ */
+export const socketUser = (
+  socket: Socket,
+  claimedUserId?: string
+): AuthPayload | null => {
+  const auth = socket.data.auth as AuthPayload | undefined;
+  if (!auth) return null;
+
+  if (auth.exp && auth.exp * 1000 <= Date.now()) {
+    socket.emit("auth:expired", { message: "Token expired, please refresh" });
+    return null;
+  }
+
+  if (claimedUserId && String(claimedUserId) !== auth.userId) {
+    socket.emit("quiz:error", { message: "User mismatch" });
+    return null;
+  }
+
+  return auth;
+};
+
+/**
+ * Swap the token on a live socket (same user only)
+ */
+export const socketRefresh = (socket: Socket, token: string) => {
+  const current = socket.data.auth as AuthPayload | undefined;
+  const next = authService.verify(token);
+
+  if (current && current.userId !== next.userId) {
+    throw new AuthError("Token belongs to another user", 403);
+  }
+
+  socket.data.auth = next;
+  return next;
+};
@@ -0,0 +1,35 @@
+import mongoose from "mongoose";
+import connectDB from "./db/db";
+import { categoryService } from "./service/category.service";
+
+// Map stored question categories onto the canonical list in
+// game/categories.ts. Pass --dry-run to only print what would change.
+const migrateCategories = async () => {
+  try {
+    await connectDB();
+
+    const dryRun = process.argv.includes("--dry-run");
+    const results = await categoryService.migrate({ dryRun });
+
+    for (const r of results) {
+      const from = r.from === null ? "(none)" : `"${r.from}"`;
+      const note = r.unknown ? " ⚠️ unknown, using default" : "";
+      console.log(`🔁 ${from} → ${r.to}: ${r.matched} question(s)${note}`);
+    }
+    if (results.length === 0) {
+      console.log("⏭️ All question categories are already canonical.");
+    }
+
+    console.log(
+      dryRun
+        ? "🔍 Dry run, nothing written."
+        : "🎉 Category migration complete."
+    );
+    mongoose.connection.close();
+  } catch (error) {
+    console.error("❌ Error migrating categories:", error);
+    mongoose.connection.close();
+  }
+};
+
+migrateCategories();
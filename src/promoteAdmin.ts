@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+import connectDB from "./db/db";
+import { GameUserRepository } from "./db/game..user.db";
+import { UserRole } from "./interfaces/interface";
+
+// Usage: npm run promoteAdmin -- <username>
+const promoteAdmin = async () => {
+  const username = process.argv[2];
+  if (!username) {
+    console.error("❌ Usage: npm run promoteAdmin -- <username>");
+    process.exit(1);
+  }
+
+  try {
+    await connectDB();
+
+    const user = await GameUserRepository.findOneAndUpdate(
+      { username },
+      { $set: { role: UserRole.ADMIN } },
+      { new: true }
+    );
+
+    if (user) {
+      console.log(`✅ ${user.username} is now an admin`);
+    } else {
+      console.log(`⚠️ No user named "${username}"`);
+    }
+
+    mongoose.connection.close();
+  } catch (error) {
+    console.error("❌ Error promoting admin:", error);
+    mongoose.connection.close();
+  }
+};
+
+promoteAdmin();
@@ -20,6 +20,7 @@ export const questions = [
   {
     question: "Who developed the theory of relativity?",
     answer: "Albert Einstein",
+    acceptable_answers: ["Einstein"],
     category: "Science",
     difficulty: "hard",
     used: false,
@@ -61,6 +62,7 @@ export const questions = [
   {
     question: "Who painted the Mona Lisa?",
     answer: "Leonardo da Vinci",
+    acceptable_answers: ["Da Vinci", "Leonardo"],
     category: "Art",
     difficulty: "easy",
     used: false,
@@ -69,6 +71,7 @@ export const questions = [
   {
     question: "What is the smallest country in the world?",
     answer: "Vatican City",
+    acceptable_answers: ["Vatican", "Holy See"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -85,6 +88,7 @@ export const questions = [
   {
     question: "Which language has the most native speakers worldwide?",
     answer: "Mandarin Chinese",
+    acceptable_answers: ["Mandarin"],
     category: "Language",
     difficulty: "hard",
     used: false,
@@ -101,6 +105,7 @@ export const questions = [
   {
     question: "Which scientist proposed the laws of motion?",
     answer: "Isaac Newton",
+    acceptable_answers: ["Newton"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -125,6 +130,7 @@ export const questions = [
   {
     question: "Who was the first man to step on the Moon?",
     answer: "Neil Armstrong",
+    acceptable_answers: ["Armstrong"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -141,6 +147,7 @@ export const questions = [
   {
     question: "What is the national sport of Japan?",
     answer: "Sumo wrestling",
+    acceptable_answers: ["Sumo"],
     category: "Sports",
     difficulty: "medium",
     used: false,
@@ -149,6 +156,7 @@ export const questions = [
   {
     question: "Which famous scientist discovered penicillin?",
     answer: "Alexander Fleming",
+    acceptable_answers: ["Fleming"],
     category: "Science",
     difficulty: "hard",
     used: false,
@@ -165,6 +173,7 @@ export const questions = [
   {
     question: "Who wrote '1984'?",
     answer: "George Orwell",
+    acceptable_answers: ["Orwell", "Eric Arthur Blair"],
     category: "Literature",
     difficulty: "medium",
     used: false,
@@ -173,6 +182,7 @@ export const questions = [
   {
     question: "What is the longest river in the world?",
     answer: "Nile River",
+    acceptable_answers: ["Nile", "River Nile"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -189,6 +199,7 @@ export const questions = [
   {
     question: "Which blood type is known as the universal donor?",
     answer: "O negative",
+    acceptable_answers: ["O neg"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -197,6 +208,7 @@ export const questions = [
   {
     question: "Who was the first female Prime Minister of the UK?",
     answer: "Margaret Thatcher",
+    acceptable_answers: ["Thatcher"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -221,6 +233,7 @@ export const questions = [
   {
     question: "What is the tallest mountain in the world?",
     answer: "Mount Everest",
+    acceptable_answers: ["Everest"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -229,6 +242,7 @@ export const questions = [
   {
     question: "Who painted 'Starry Night'?",
     answer: "Vincent van Gogh",
+    acceptable_answers: ["Van Gogh"],
     category: "Art",
     difficulty: "easy",
     used: false,
@@ -253,6 +267,7 @@ export const questions = [
   {
     question: "Which sport is known as the 'king of sports'?",
     answer: "Soccer",
+    acceptable_answers: ["Football"],
     category: "Sports",
     difficulty: "easy",
     used: false,
@@ -269,6 +284,7 @@ export const questions = [
   {
     question: "Who was the first emperor of China?",
     answer: "Qin Shi Huang",
+    acceptable_answers: ["Qin Shi Huangdi", "Shi Huangdi"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -301,6 +317,7 @@ export const questions = [
   {
     question: "Who is the author of 'Pride and Prejudice'?",
     answer: "Jane Austen",
+    acceptable_answers: ["Austen"],
     category: "Literature",
     difficulty: "easy",
     used: false,
@@ -334,6 +351,7 @@ export const questions = [
     question:
       "Which scientist discovered gravity when an apple fell on his head?",
     answer: "Isaac Newton",
+    acceptable_answers: ["Newton"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -342,6 +360,7 @@ export const questions = [
   {
     question: "Who was the first US president to resign from office?",
     answer: "Richard Nixon",
+    acceptable_answers: ["Nixon"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -422,6 +441,7 @@ export const questions = [
   {
     question: "What is the national flower of Japan?",
     answer: "Cherry Blossom",
+    acceptable_answers: ["Sakura"],
     category: "Culture",
     difficulty: "easy",
     used: false,
@@ -439,6 +459,7 @@ export const questions = [
     question:
       "Who was the first African-American president of the United States?",
     answer: "Barack Obama",
+    acceptable_answers: ["Obama"],
     category: "History",
     difficulty: "easy",
     used: false,
@@ -535,6 +556,7 @@ export const questions = [
   {
     question: "What type of blood cells help fight infection?",
     answer: "White blood cells",
+    acceptable_answers: ["Leukocytes", "White cells"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -568,6 +590,7 @@ export const questions = [
   {
     question: "Which Roman emperor was assassinated on the Ides of March?",
     answer: "Julius Caesar",
+    acceptable_answers: ["Caesar"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -584,6 +607,7 @@ export const questions = [
   {
     question: "Who is the author of 'The Catcher in the Rye'?",
     answer: "J.D. Salinger",
+    acceptable_answers: ["Salinger", "Jerome David Salinger"],
     category: "Literature",
     difficulty: "hard",
     used: false,
@@ -608,6 +632,7 @@ export const questions = [
   {
     question: "Who was known as the 'Maid of Orléans'?",
     answer: "Joan of Arc",
+    acceptable_answers: ["Jeanne d'Arc"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -624,6 +649,7 @@ export const questions = [
   {
     question: "What is the national animal of China?",
     answer: "Giant Panda",
+    acceptable_answers: ["Panda"],
     category: "Animals",
     difficulty: "medium",
     used: false,
@@ -640,6 +666,7 @@ export const questions = [
   {
     question: "Who wrote the play 'Romeo and Juliet'?",
     answer: "William Shakespeare",
+    acceptable_answers: ["Shakespeare"],
     category: "Literature",
     difficulty: "easy",
     used: false,
@@ -656,6 +683,7 @@ export const questions = [
   {
     question: "Who was the first woman to win a Nobel Prize?",
     answer: "Marie Curie",
+    acceptable_answers: ["Curie"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -672,6 +700,7 @@ export const questions = [
   {
     question: "Which sea separates Europe and Africa?",
     answer: "Mediterranean Sea",
+    acceptable_answers: ["Mediterranean"],
     category: "Geography",
     difficulty: "medium",
     used: false,
@@ -680,6 +709,7 @@ export const questions = [
   {
     question: "What is the currency of Switzerland?",
     answer: "Swiss Franc",
+    acceptable_answers: ["Franc"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -696,6 +726,7 @@ export const questions = [
   {
     question: "Who invented the telephone?",
     answer: "Alexander Graham Bell",
+    acceptable_answers: ["Graham Bell"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -728,6 +759,7 @@ export const questions = [
   {
     question: "Who painted the famous artwork 'The Persistence of Memory'?",
     answer: "Salvador Dalí",
+    acceptable_answers: ["Dalí"],
     category: "Art",
     difficulty: "medium",
     used: false,
@@ -736,6 +768,7 @@ export const questions = [
   {
     question: "Which empire was ruled by Genghis Khan?",
     answer: "Mongol Empire",
+    acceptable_answers: ["Mongols", "Mongolian Empire"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -776,6 +809,7 @@ export const questions = [
   {
     question: "Which Italian explorer reached the Americas in 1492?",
     answer: "Christopher Columbus",
+    acceptable_answers: ["Columbus"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -784,6 +818,7 @@ export const questions = [
   {
     question: "What is the largest ocean on Earth?",
     answer: "Pacific Ocean",
+    acceptable_answers: ["Pacific"],
     category: "Geography",
     difficulty: "easy",
     used: false,
@@ -801,6 +836,7 @@ export const questions = [
     question:
       "Which scientist proposed the heliocentric model of the solar system?",
     answer: "Nicolaus Copernicus",
+    acceptable_answers: ["Copernicus"],
     category: "Science",
     difficulty: "hard",
     used: false,
@@ -833,6 +869,7 @@ export const questions = [
   {
     question: "Which artist painted 'The Persistence of Memory'?",
     answer: "Salvador Dalí",
+    acceptable_answers: ["Dalí"],
     category: "Art",
     difficulty: "medium",
     used: false,
@@ -849,6 +886,7 @@ export const questions = [
   {
     question: "Who was the first woman to win a Nobel Prize?",
     answer: "Marie Curie",
+    acceptable_answers: ["Curie"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -857,6 +895,7 @@ export const questions = [
   {
     question: "What is the national flower of Japan?",
     answer: "Cherry Blossom",
+    acceptable_answers: ["Sakura"],
     category: "Geography",
     difficulty: "easy",
     used: false,
@@ -892,6 +931,7 @@ export const questions = [
   {
     question: "Which ocean is the Bermuda Triangle located in?",
     answer: "Atlantic Ocean",
+    acceptable_answers: ["Atlantic"],
     category: "Geography",
     difficulty: "medium",
     used: false,
@@ -940,6 +980,7 @@ export const questions = [
   {
     question: "Which U.S. president served the shortest term?",
     answer: "William Henry Harrison",
+    acceptable_answers: ["William Harrison"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -956,6 +997,7 @@ export const questions = [
   {
     question: "Who directed the movie 'Pulp Fiction'?",
     answer: "Quentin Tarantino",
+    acceptable_answers: ["Tarantino"],
     category: "Entertainment",
     difficulty: "medium",
     used: false,
@@ -981,6 +1023,7 @@ export const questions = [
   {
     question: "Who was the first man to travel into space?",
     answer: "Yuri Gagarin",
+    acceptable_answers: ["Gagarin"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -1005,6 +1048,7 @@ export const questions = [
   {
     question: "In computing, what does 'HTTP' stand for?",
     answer: "HyperText Transfer Protocol",
+    acceptable_answers: ["Hypertext Transport Protocol"],
     category: "Technology",
     difficulty: "medium",
     used: false,
@@ -1054,6 +1098,7 @@ export const questions = [
   {
     question: "Which blood type is known as the universal donor?",
     answer: "O Negative",
+    acceptable_answers: ["O neg"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -1070,6 +1115,7 @@ export const questions = [
   {
     question: "Who was known as the 'Maid of Orléans'?",
     answer: "Joan of Arc",
+    acceptable_answers: ["Jeanne d'Arc"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -1078,6 +1124,7 @@ export const questions = [
   {
     question: "Which company developed the video game 'Fortnite'?",
     answer: "Epic Games",
+    acceptable_answers: ["Epic"],
     category: "Entertainment",
     difficulty: "medium",
     used: false,
@@ -1086,6 +1133,7 @@ export const questions = [
   {
     question: "What is the world’s largest land mammal?",
     answer: "African Elephant",
+    acceptable_answers: ["Elephant"],
     category: "Nature",
     difficulty: "easy",
     used: false,
@@ -1102,6 +1150,7 @@ export const questions = [
   {
     question: "Who wrote 'Paradise Lost'?",
     answer: "John Milton",
+    acceptable_answers: ["Milton"],
     category: "Literature",
     difficulty: "hard",
     used: false,
@@ -1143,6 +1192,7 @@ export const questions = [
   {
     question: "Which language has the most native speakers worldwide?",
     answer: "Mandarin Chinese",
+    acceptable_answers: ["Mandarin"],
     category: "Language",
     difficulty: "hard",
     used: false,
@@ -1151,6 +1201,7 @@ export const questions = [
   {
     question: "What does FIFA stand for?",
     answer: "Fédération Internationale de Football Association",
+    acceptable_answers: ["International Federation of Association Football"],
     category: "Sports",
     difficulty: "medium",
     used: false,
@@ -1160,6 +1211,7 @@ export const questions = [
     question:
       "Which famous scientist introduced the idea of natural selection?",
     answer: "Charles Darwin",
+    acceptable_answers: ["Darwin"],
     category: "Science",
     difficulty: "easy",
     used: false,
@@ -1176,6 +1228,7 @@ export const questions = [
   {
     question: "Which two elements make up water?",
     answer: "Hydrogen and Oxygen",
+    acceptable_answers: ["Oxygen and Hydrogen", "H2O"],
     category: "Science",
     difficulty: "easy",
     used: false,
@@ -1208,6 +1261,7 @@ export const questions = [
   {
     question: "Who wrote 'Pride and Prejudice'?",
     answer: "Jane Austen",
+    acceptable_answers: ["Austen"],
     category: "Literature",
     difficulty: "hard",
     used: false,
@@ -1224,6 +1278,7 @@ export const questions = [
   {
     question: "Who developed the theory of relativity?",
     answer: "Albert Einstein",
+    acceptable_answers: ["Einstein"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -1240,6 +1295,7 @@ export const questions = [
   {
     question: "What is the world’s longest river?",
     answer: "Nile River",
+    acceptable_answers: ["Nile", "River Nile"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -1272,6 +1328,7 @@ export const questions = [
   {
     question: "Which famous physicist was born in Pisa, Italy?",
     answer: "Galileo Galilei",
+    acceptable_answers: ["Galileo"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -1305,6 +1362,7 @@ export const questions = [
   {
     question: "Who was the British Prime Minister during World War II?",
     answer: "Winston Churchill",
+    acceptable_answers: ["Churchill"],
     category: "History",
     difficulty: "medium",
     used: false,
@@ -1321,6 +1379,7 @@ export const questions = [
   {
     question: "Which painter is famous for cutting off part of his ear?",
     answer: "Vincent van Gogh",
+    acceptable_answers: ["Van Gogh"],
     category: "Art",
     difficulty: "easy",
     used: false,
@@ -1361,6 +1420,7 @@ export const questions = [
   {
     question: "Which sport is known as the 'king of sports'?",
     answer: "Soccer (Football)",
+    acceptable_answers: ["Soccer", "Football"],
     category: "Sports",
     difficulty: "easy",
     used: false,
@@ -1369,6 +1429,7 @@ export const questions = [
   {
     question: "Who discovered penicillin?",
     answer: "Alexander Fleming",
+    acceptable_answers: ["Fleming"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -1394,6 +1455,7 @@ export const questions = [
   {
     question: "Which explorer is credited with discovering America in 1492?",
     answer: "Christopher Columbus",
+    acceptable_answers: ["Columbus"],
     category: "History",
     difficulty: "easy",
     used: false,
@@ -1402,6 +1464,7 @@ export const questions = [
   {
     question: "Who wrote 'Hamlet'?",
     answer: "William Shakespeare",
+    acceptable_answers: ["Shakespeare"],
     category: "Literature",
     difficulty: "medium",
     used: false,
@@ -1435,6 +1498,7 @@ export const questions = [
     question: "What is the capital of South Africa?",
     answer:
       "Pretoria (administrative), Bloemfontein (judicial), Cape Town (legislative)",
+    acceptable_answers: ["Pretoria", "Bloemfontein", "Cape Town"],
     category: "Geography",
     difficulty: "hard",
     used: false,
@@ -1451,6 +1515,7 @@ export const questions = [
   {
     question: "Which famous scientist worked with radioactivity?",
     answer: "Marie Curie",
+    acceptable_answers: ["Curie"],
     category: "Science",
     difficulty: "medium",
     used: false,
@@ -1460,6 +1525,7 @@ export const questions = [
   {
     question: "What is the national sport of Japan?",
     answer: "Sumo Wrestling",
+    acceptable_answers: ["Sumo"],
     category: "Sports",
     difficulty: "medium",
     used: false,
@@ -1468,6 +1534,7 @@ export const questions = [
   {
     question: "Who was the first President of the United States?",
     answer: "George Washington",
+    acceptable_answers: ["Washington"],
     category: "History",
     difficulty: "easy",
     used: false,
@@ -1492,6 +1559,7 @@ export const questions = [
   {
     question: "Who wrote 'The Divine Comedy'?",
     answer: "Dante Alighieri",
+    acceptable_answers: ["Dante"],
     category: "Literature",
     difficulty: "hard",
     used: false,
@@ -1500,6 +1568,7 @@ export const questions = [
   {
     question: "Which ancient wonder was located in Babylon?",
     answer: "Hanging Gardens",
+    acceptable_answers: ["Hanging Gardens of Babylon"],
     category: "History",
     difficulty: "hard",
     used: false,
@@ -1516,6 +1585,7 @@ export const questions = [
   {
     question: "What gas do humans exhale when they breathe?",
     answer: "Carbon Dioxide",
+    acceptable_answers: ["CO2"],
     category: "Science",
     difficulty: "easy",
     used: false,
@@ -1524,6 +1594,7 @@ export const questions = [
   {
     question: "Which bird is the fastest in the world?",
     answer: "Peregrine Falcon",
+    acceptable_answers: ["Peregrine"],
     category: "Nature",
     difficulty: "hard",
     used: false,
@@ -1565,6 +1636,7 @@ export const questions = [
   {
     question: "Which sea separates Europe and Africa?",
     answer: "Mediterranean Sea",
+    acceptable_answers: ["Mediterranean"],
     category: "Geography",
     difficulty: "medium",
     used: false,
@@ -1573,6 +1645,7 @@ export const questions = [
   {
     question: "Who invented the telephone?",
     answer: "Alexander Graham Bell",
+    acceptable_answers: ["Graham Bell"],
     category: "Technology",
     difficulty: "medium",
     used: false,
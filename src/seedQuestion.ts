@@ -2,16 +2,44 @@ import mongoose from "mongoose";
 import connectDB from "./db/db";
 import { QuestionRepository } from "./db/game.question.db";
 import { questions } from "./questions";
+import { QuestionType } from "./interfaces/interface";
+import { buildDistractors, shuffle } from "./game/question.options";
+import { requireCategory } from "./game/categories";
+
+type SeedQuestion = (typeof questions)[number];
+
+// Every seeded question is offered as multiple choice with 3 distractors
+const withOptions = (q: SeedQuestion, pool: SeedQuestion[]) => {
+  const distractors = buildDistractors(q, pool);
+  if (distractors.length < 3) return { type: QuestionType.FREE_TEXT };
+  return {
+    type: QuestionType.MULTIPLE_CHOICE,
+    options: shuffle([q.answer, ...distractors]),
+  };
+};
 
 const seedQuestions = async () => {
   try {
     await connectDB();
 
-    for (const q of questions) {
+    // Fails before writing anything if a category isn't in the registry
+    const seed = questions.map((q) => ({
+      ...q,
+      category: requireCategory(q.category),
+    }));
+
+    for (const q of seed) {
       const exists = await QuestionRepository.findOne({ question: q.question });
       if (!exists) {
-        await QuestionRepository.create(q);
+        await QuestionRepository.create({ ...q, ...withOptions(q, seed) });
         console.log(`✅ Inserted: "${q.question}"`);
+      } else if (!exists.options?.length) {
+        // Seeded before choice questions existed
+        await QuestionRepository.updateOne(
+          { _id: exists._id },
+          { $set: withOptions(q, seed) }
+        );
+        console.log(`🔁 Added options to: "${q.question}"`);
       } else {
         console.log(`⏭️ Skipped (already exists): "${q.question}"`);
       }
@@ -0,0 +1,66 @@
+import jwt, { SignOptions } from "jsonwebtoken";
+import { Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { AuthPayload } from "../interfaces/interface";
+import { AuthError } from "./errors";
+
+class AuthService {
+  private readonly gameUserRepository = GameUserRepository;
+  private JWT_SECRET = process.env.JWT_SECRET || "supersecret";
+  private ACCESS_EXPIRES_IN = (process.env.JWT_EXPIRES_IN ||
+    "7d") as SignOptions["expiresIn"];
+  private REFRESH_EXPIRES_IN = (process.env.JWT_REFRESH_EXPIRES_IN ||
+    "30d") as SignOptions["expiresIn"];
+
+  /**
+   * Issue an access token plus a longer-lived refresh token
+   */
+  public issueTokens(user: { _id: unknown; username: string }) {
+    const claims = { userId: String(user._id), username: user.username };
+
+    const token = jwt.sign({ ...claims, type: "access" }, this.JWT_SECRET, {
+      expiresIn: this.ACCESS_EXPIRES_IN,
+    });
+    const refreshToken = jwt.sign(
+      { ...claims, type: "refresh" },
+      this.JWT_SECRET,
+      { expiresIn: this.REFRESH_EXPIRES_IN }
+    );
+
+    return { token, refreshToken };
+  }
+
+  public verify(token: string, type: AuthPayload["type"] = "access") {
+    let payload: AuthPayload;
+    try {
+      payload = jwt.verify(token, this.JWT_SECRET) as AuthPayload;
+    } catch (error: any) {
+      throw new AuthError(
+        error?.name === "TokenExpiredError" ? "Token expired" : "Invalid token"
+      );
+    }
+
+    // Tokens issued before refresh support carry no type and count as access
+    if ((payload.type ?? "access") !== type || !payload.userId) {
+      throw new AuthError("Invalid token");
+    }
+
+    return payload;
+  }
+
+  /**
+   * Exchange a refresh token for a fresh token pair
+   */
+  public async refresh(refreshToken: string) {
+    const payload = this.verify(refreshToken, "refresh");
+
+    const user = await this.gameUserRepository
+      .findById(new Types.ObjectId(payload.userId))
+      .select("username");
+    if (!user) throw new AuthError("User no longer exists");
+
+    return this.issueTokens(user);
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,92 @@
+import { QuestionRepository } from "../db/game.question.db";
+import {
+  CATEGORIES,
+  DEFAULT_CATEGORY,
+  resolveCategory,
+} from "../game/categories";
+import { rotationService } from "./rotation.service";
+
+export type CategoryMigration = {
+  from: string | null;
+  to: string;
+  matched: number;
+  modified: number;
+  unknown: boolean; // no alias matched, moved to the default category
+};
+
+class CategoryService {
+  private readonly questionRepository = QuestionRepository;
+  private readonly rotation = rotationService;
+
+  /**
+   * Every canonical category with how many live questions it has and how
+   * many of those can be asked right now
+   */
+  public async list() {
+    const [facets] = await this.questionRepository.aggregate([
+      {
+        $facet: {
+          total: [
+            { $match: { retired: { $ne: true } } },
+            { $group: { _id: "$category", count: { $sum: 1 } } },
+          ],
+          available: [
+            { $match: this.rotation.eligibleFilter(this.rotation.policy()) },
+            { $group: { _id: "$category", count: { $sum: 1 } } },
+          ],
+        },
+      },
+    ]);
+
+    const counts = (rows: { _id: string; count: number }[]) =>
+      new Map(rows.map((r) => [r._id, r.count]));
+    const total = counts(facets.total);
+    const available = counts(facets.available);
+
+    return CATEGORIES.map(({ id, name, icon }) => ({
+      id,
+      name,
+      icon,
+      questions: total.get(id) ?? 0,
+      available: available.get(id) ?? 0,
+    }));
+  }
+
+  /**
+   * Rewrite every stored category onto its canonical id. Unknown or
+   * missing values go to the default category. Safe to run again.
+   */
+  public async migrate(
+    options: { dryRun?: boolean } = {}
+  ): Promise<CategoryMigration[]> {
+    const stored: (string | null)[] = await this.questionRepository.distinct(
+      "category"
+    );
+    // { category: null } also matches questions saved without one
+    if (!stored.includes(null)) stored.push(null);
+
+    const results: CategoryMigration[] = [];
+    for (const from of stored) {
+      const category = resolveCategory(from);
+      const to = category?.id ?? DEFAULT_CATEGORY;
+      if (from === to) continue;
+
+      const filter = { category: from };
+      const matched = await this.questionRepository.countDocuments(filter);
+      if (matched === 0) continue;
+
+      const modified = options.dryRun
+        ? 0
+        : (
+            await this.questionRepository.updateMany(filter, {
+              $set: { category: to },
+            })
+          ).modifiedCount;
+      results.push({ from, to, matched, modified, unknown: !category });
+    }
+
+    return results;
+  }
+}
+
+export const categoryService = new CategoryService();
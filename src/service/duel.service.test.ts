@@ -0,0 +1,99 @@
+import { Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { DuelRepository } from "../db/game.duel.db";
+import { JobRepository } from "../db/game.job.db";
+import { Transaction } from "../db/transaction.db";
+import { IJob, LedgerAsset, LedgerReason } from "../interfaces/interface";
+import type { TriviaRoom } from "../game/trivia.room";
+import { describeDb, useTestDb } from "../test/db";
+import { duelService, EXPIRE_DUEL_JOB, SETTLE_DUEL_JOB } from "./duel.service";
+import { JobHandler, JobWorker } from "./job.worker";
+import { LedgerAccount, ledgerService } from "./ledger.service";
+
+// Collect the handlers instead of polling the job queue
+const handlers = new Map<string, JobHandler>();
+duelService.start({
+  register: (type: string, handler: JobHandler) => handlers.set(type, handler),
+} as unknown as JobWorker);
+
+const run = (type: string, duelId: Types.ObjectId) =>
+  handlers.get(type)!({
+    _id: new Types.ObjectId(),
+    payload: { duelId: duelId.toString() },
+  } as unknown as IJob);
+
+const STAKE = 3;
+
+// A matched duel with both stakes escrowed, as create leaves it
+const createDuel = async () => {
+  const _id = new Types.ObjectId();
+  const players = await Promise.all(
+    ["alice", "bob"].map(async (username) => {
+      const user = await GameUserRepository.create({
+        username,
+        platform: "tiktok",
+        tokens: STAKE,
+      });
+      await ledgerService.postUserTransfer({
+        userId: user._id as Types.ObjectId,
+        reason: LedgerReason.DUEL_STAKE,
+        referenceId: `${_id}:${user._id}`,
+        legs: [
+          {
+            asset: LedgerAsset.TOKEN,
+            amount: -STAKE,
+            counterAccount: LedgerAccount.HOUSE,
+          },
+        ],
+      });
+      return { user_id: user._id as Types.ObjectId, username, exp: 0 };
+    })
+  );
+  await DuelRepository.create({
+    _id,
+    room: `d-${_id}`,
+    players,
+    best_of: 3,
+    stake: STAKE,
+    pot: 0,
+  });
+  return { _id, players };
+};
+
+const tokens = async (userId: Types.ObjectId) =>
+  (await GameUserRepository.findById(userId).lean())!.tokens;
+
+const roomFor = (duelId: Types.ObjectId) =>
+  ({ config: { duel: { id: duelId.toString() } } } as unknown as TriviaRoom);
+
+describeDb("duel join deadline", () => {
+  useTestDb();
+
+  it("refunds both stakes when the duel never started", async () => {
+    const { _id, players } = await createDuel();
+
+    expect(await run(EXPIRE_DUEL_JOB, _id)).toEqual({ expired: true });
+    expect(await JobRepository.countDocuments({ type: SETTLE_DUEL_JOB })).toBe(
+      1
+    );
+    await run(SETTLE_DUEL_JOB, _id);
+    await run(SETTLE_DUEL_JOB, _id);
+
+    for (const p of players) expect(await tokens(p.user_id)).toBe(STAKE);
+    expect(
+      await Transaction.countDocuments({ reason: LedgerReason.DUEL_REFUND })
+    ).toBe(2);
+    // The room can't start a duel the deadline called off
+    expect(await duelService.markStarted(roomFor(_id))).toBe(false);
+  });
+
+  it("leaves a started duel alone", async () => {
+    const { _id, players } = await createDuel();
+
+    expect(await duelService.markStarted(roomFor(_id))).toBe(true);
+    expect(await run(EXPIRE_DUEL_JOB, _id)).toEqual({ expired: false });
+
+    expect((await DuelRepository.findById(_id))!.status).toBe("running");
+    for (const p of players) expect(await tokens(p.user_id)).toBe(0);
+  });
+});
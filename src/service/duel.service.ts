@@ -0,0 +1,301 @@
+import { Types } from "mongoose";
+import { DuelRepository } from "../db/game.duel.db";
+import {
+  IDuel,
+  IJob,
+  LedgerAsset,
+  LedgerReason,
+} from "../interfaces/interface";
+import { roomRegistry } from "../game/room.registry";
+import type { DuelOutcome, TriviaRoom } from "../game/trivia.room";
+import { AlreadyPostedError, InsufficientStakeError } from "./errors";
+import { jobService } from "./job.service";
+import { jobWorker } from "./job.worker";
+import { LedgerAccount, ledgerService } from "./ledger.service";
+import { BALANCE_PER_TOKEN, gameService } from "./service";
+
+export const SETTLE_DUEL_JOB = "settle-duel";
+export const EXPIRE_DUEL_JOB = "expire-duel";
+
+// Matched players who haven't both turned up by then get their stakes back
+const JOIN_DEADLINE_MS = 60 * 1000;
+
+export type DuelPlayer = {
+  userId: string;
+  username: string;
+  exp: number;
+};
+
+type DuelJob = { duelId: string };
+
+/**
+ * 1v1 duels. Both stakes are escrowed before the duel room opens; once
+ * the room reports the outcome a job pays the winner the whole pot, or
+ * refunds both stakes after a draw or a duel called off before it began.
+ * A player who leaves mid-duel forfeits (see TriviaRoom.leave), and a
+ * duel whose first question isn't asked by the join deadline is called
+ * off, so a player who never joins can't strand the stakes.
+ */
+class DuelService {
+  private readonly duelRepository = DuelRepository;
+  private readonly game = gameService;
+  private readonly ledger = ledgerService;
+  private readonly jobs = jobService;
+  private readonly rooms = roomRegistry;
+
+  public start(worker = jobWorker) {
+    worker.register(SETTLE_DUEL_JOB, (job) => this.settle(job));
+    worker.register(EXPIRE_DUEL_JOB, (job) => this.expire(job));
+  }
+
+  /**
+   * Escrow both stakes and open the duel room. Throws with nothing
+   * charged if either player can't cover the stake.
+   */
+  public async create(
+    players: [DuelPlayer, DuelPlayer],
+    options: { bestOf: number; stake: number }
+  ) {
+    const _id = new Types.ObjectId();
+    const duelId = _id.toString();
+
+    const escrowed: DuelPlayer[] = [];
+    if (options.stake > 0) {
+      for (const p of players) {
+        const user = await this.ledger.postUserTransfer({
+          userId: new Types.ObjectId(p.userId),
+          reason: LedgerReason.DUEL_STAKE,
+          referenceId: `${duelId}:${p.userId}`,
+          legs: [
+            {
+              asset: LedgerAsset.TOKEN,
+              amount: -options.stake,
+              counterAccount: LedgerAccount.HOUSE,
+            },
+          ],
+        });
+        if (!user) {
+          await this.refund(duelId, escrowed, options.stake);
+          throw new InsufficientStakeError(p.userId);
+        }
+        escrowed.push(p);
+      }
+    }
+
+    // Hand the stakes back if the duel can't be set up
+    try {
+      const duel = await this.duelRepository.create({
+        _id,
+        room: `d-${duelId}`,
+        players: players.map((p) => ({
+          user_id: new Types.ObjectId(p.userId),
+          username: p.username,
+          exp: p.exp,
+        })),
+        best_of: options.bestOf,
+        stake: options.stake,
+        pot: 2 * options.stake * BALANCE_PER_TOKEN,
+      });
+
+      const room = this.rooms.create({
+        name: duel.room,
+        description: `⚔️ ${players[0].username} vs ${players[1].username}`,
+        // The stake was escrowed up front; rounds only count wins
+        entryTokens: 0,
+        rewardMultiplier: 0,
+        waitDuration: 5,
+        duel: {
+          id: duelId,
+          players: [players[0].userId, players[1].userId],
+          bestOf: options.bestOf,
+          stake: options.stake,
+        },
+      });
+      await this.rooms.whenLed(room);
+      await this.jobs.enqueue(
+        EXPIRE_DUEL_JOB,
+        { duelId },
+        {
+          runAt: new Date(Date.now() + JOIN_DEADLINE_MS),
+          dedupeKey: `${EXPIRE_DUEL_JOB}:${duelId}`,
+        }
+      );
+      return { duel, room };
+    } catch (err) {
+      await this.duelRepository.deleteOne({ _id });
+      await this.refund(duelId, escrowed, options.stake);
+      throw err;
+    }
+  }
+
+  public async get(id: Types.ObjectId) {
+    const duel = await this.duelRepository.findById(id);
+    if (!duel) throw new Error("Duel not found");
+    return duel;
+  }
+
+  public async listForUser(
+    userId: Types.ObjectId,
+    page: number = 1,
+    limit: number = 20
+  ) {
+    const query = { "players.user_id": userId };
+    const [items, total] = await Promise.all([
+      this.duelRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.duelRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  /**
+   * Room hook: mark the duel started before its first question. False
+   * when the join deadline already called it off.
+   */
+  public async markStarted(room: TriviaRoom) {
+    const id = room.config.duel?.id;
+    if (!id) return true;
+
+    const duel = await this.duelRepository.findOneAndUpdate(
+      { _id: id, status: "running" },
+      { $set: { started_at: new Date() } },
+      { new: true }
+    );
+    return !!duel;
+  }
+
+  /**
+   * Room hook: store the outcome once and queue the settlement
+   */
+  public async finish(room: TriviaRoom, outcome: DuelOutcome) {
+    const id = room.config.duel?.id;
+    if (!id) return;
+
+    const duel = await this.duelRepository.findOne({ _id: id });
+    if (!duel) return;
+    if (duel.status === "running") {
+      await this.duelRepository.updateOne(
+        { _id: id, status: "running" },
+        {
+          $set: {
+            status: outcome.reason,
+            winner_id: outcome.winner
+              ? new Types.ObjectId(outcome.winner)
+              : null,
+            players: duel.players.map((p) => ({
+              user_id: p.user_id,
+              username: p.username,
+              exp: p.exp,
+              wins: outcome.wins[p.user_id.toString()] ?? 0,
+            })),
+            finished_at: new Date(),
+          },
+        }
+      );
+    }
+
+    await this.jobs.enqueue(
+      SETTLE_DUEL_JOB,
+      { duelId: id },
+      { dedupeKey: `${SETTLE_DUEL_JOB}:${id}` }
+    );
+  }
+
+  /**
+   * Job: pay the pot or refund the stakes, then close the room. Each
+   * transfer is keyed by the duel so retries never pay twice.
+   */
+  private async settle(job: IJob) {
+    const { duelId } = job.payload as DuelJob;
+    const duel = await this.get(new Types.ObjectId(duelId));
+    if (duel.status === "running") throw new Error("Duel not finished yet");
+
+    if (!duel.settled_at && duel.stake > 0) {
+      if (duel.winner_id) {
+        await this.payWinner(duel);
+      } else {
+        await this.refund(
+          duelId,
+          duel.players.map((p) => ({
+            userId: p.user_id.toString(),
+            username: p.username,
+            exp: p.exp,
+          })),
+          duel.stake
+        );
+      }
+    }
+
+    await this.duelRepository.updateOne(
+      { _id: duel._id, settled_at: null },
+      { $set: { settled_at: new Date() } }
+    );
+    if (this.rooms.get(duel.room)) this.rooms.remove(duel.room);
+    return { status: duel.status, winner: duel.winner_id };
+  }
+
+  /**
+   * Job: call off a duel that hasn't started by the join deadline and
+   * queue the refund. Conditional on started_at, so it can't race the
+   * room's markStarted.
+   */
+  private async expire(job: IJob) {
+    const { duelId } = job.payload as DuelJob;
+    const duel = await this.duelRepository.findOneAndUpdate(
+      { _id: duelId, status: "running", started_at: null },
+      { $set: { status: "cancelled", finished_at: new Date() } },
+      { new: true }
+    );
+    if (!duel) return { expired: false };
+
+    await this.jobs.enqueue(
+      SETTLE_DUEL_JOB,
+      { duelId },
+      { dedupeKey: `${SETTLE_DUEL_JOB}:${duelId}` }
+    );
+    return { expired: true };
+  }
+
+  private async payWinner(duel: IDuel) {
+    try {
+      const user = await this.game.addBalance(
+        duel.winner_id!,
+        duel.pot,
+        LedgerReason.DUEL_PAYOUT,
+        duel._id!.toString()
+      );
+      if (!user) throw new Error(`Duel winner ${duel.winner_id} not found`);
+    } catch (error) {
+      // Paid by an earlier attempt
+      if (!(error instanceof AlreadyPostedError)) throw error;
+    }
+  }
+
+  private async refund(duelId: string, players: DuelPlayer[], stake: number) {
+    for (const p of players) {
+      try {
+        await this.ledger.postUserTransfer({
+          userId: new Types.ObjectId(p.userId),
+          reason: LedgerReason.DUEL_REFUND,
+          referenceId: `${duelId}:${p.userId}`,
+          legs: [
+            {
+              asset: LedgerAsset.TOKEN,
+              amount: stake,
+              counterAccount: LedgerAccount.HOUSE,
+            },
+          ],
+        });
+      } catch (error) {
+        // Keyed per player, so a refund already made is skipped
+        if (!(error instanceof AlreadyPostedError)) throw error;
+      }
+    }
+  }
+}
+
+export const duelService = new DuelService();
@@ -0,0 +1,53 @@
+/**
+ * Raised when a concurrent request changed the same documents first.
+ * Safe for the caller to retry.
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Raised when a token is missing, invalid or belongs to someone else.
+ */
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Raised when a question provider asks us to slow down. The generation
+ * job is retried with backoff like any other failure.
+ */
+export class ProviderRateLimitError extends Error {
+  constructor(provider: string) {
+    super(`${provider} rate limit reached`);
+    this.name = "ProviderRateLimitError";
+  }
+}
+
+/**
+ * Raised when a matched duel player can't cover the stake. Nothing is
+ * left charged; userId is the player who came up short.
+ */
+export class InsufficientStakeError extends Error {
+  constructor(public readonly userId: string) {
+    super("Not enough tokens for the duel stake");
+    this.name = "InsufficientStakeError";
+  }
+}
+
+/**
+ * Raised when a journal with the same reason and reference id already
+ * exists. Idempotent postings treat it as done; nothing was changed.
+ */
+export class AlreadyPostedError extends Error {
+  constructor(reason: string, public readonly referenceId: string) {
+    super(`${reason} ${referenceId} has already been posted`);
+    this.name = "AlreadyPostedError";
+  }
+}
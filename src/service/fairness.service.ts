@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import { ClientSession, Types } from "mongoose";
+import { FairnessSeedRepository } from "../db/game.fairness.seed.db";
+import { PickARowPlayRepository } from "../db/game.pickarow.play.db";
+
+/**
+ * Commit–reveal RNG. Each user has one active server seed whose sha256 hash
+ * is published before any play. A play's row is derived from
+ * HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`). Rotating reveals the
+ * old seed so every past play with it can be recomputed.
+ */
+class FairnessService {
+  private readonly seedRepository = FairnessSeedRepository;
+  private readonly playRepository = PickARowPlayRepository;
+
+  public hashSeed(serverSeed: string) {
+    return crypto.createHash("sha256").update(serverSeed).digest("hex");
+  }
+
+  public randomClientSeed() {
+    return crypto.randomBytes(16).toString("hex");
+  }
+
+  /**
+   * Deterministic row in 1..rows from the seeds and nonce
+   */
+  public computeRow(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    rows: number
+  ) {
+    const hmac = crypto
+      .createHmac("sha256", serverSeed)
+      .update(`${clientSeed}:${nonce}`)
+      .digest("hex");
+
+    // First 52 bits as a float in [0, 1)
+    const value = parseInt(hmac.slice(0, 13), 16) / 2 ** 52;
+    return Math.floor(value * rows) + 1;
+  }
+
+  public validateClientSeed(clientSeed?: unknown) {
+    if (clientSeed === undefined || clientSeed === null || clientSeed === "") {
+      return this.randomClientSeed();
+    }
+    if (typeof clientSeed !== "string" || clientSeed.length > 64) {
+      throw new Error("Client seed must be a string of at most 64 characters");
+    }
+    return clientSeed;
+  }
+
+  /**
+   * Current commitment for a user (creates the first seed on demand)
+   */
+  public async getActiveSeed(userId: Types.ObjectId) {
+    await this.ensureActiveSeed(userId);
+
+    const seed = await this.seedRepository.findOne({
+      user_id: userId,
+      active: true,
+    });
+
+    return {
+      seedId: seed!._id,
+      serverSeedHash: seed!.server_seed_hash,
+      nextNonce: seed!.nonce + 1,
+    };
+  }
+
+  /**
+   * Reserve the next nonce on the active seed and roll a row. Inside a
+   * session the nonce is only used up if the transaction commits.
+   */
+  public async nextRoll(
+    userId: Types.ObjectId,
+    clientSeed: string,
+    rows: number,
+    session?: ClientSession
+  ) {
+    await this.ensureActiveSeed(userId);
+
+    const seed = await this.seedRepository
+      .findOneAndUpdate(
+        { user_id: userId, active: true },
+        { $inc: { nonce: 1 } },
+        { new: true, session }
+      )
+      .select("+server_seed");
+    if (!seed) throw new Error("No active server seed");
+
+    return {
+      seedId: seed._id as Types.ObjectId,
+      serverSeedHash: seed.server_seed_hash,
+      clientSeed,
+      nonce: seed.nonce,
+      row: this.computeRow(seed.server_seed, clientSeed, seed.nonce, rows),
+    };
+  }
+
+  /**
+   * Reveal the active seed and commit to a new one
+   */
+  public async rotate(userId: Types.ObjectId) {
+    const previous = await this.seedRepository
+      .findOneAndUpdate(
+        { user_id: userId, active: true },
+        { $set: { active: false, revealed_at: new Date() } },
+        { new: true }
+      )
+      .select("+server_seed");
+
+    const next = await this.getActiveSeed(userId);
+
+    return {
+      revealed: previous
+        ? {
+            seedId: previous._id,
+            serverSeed: previous.server_seed,
+            serverSeedHash: previous.server_seed_hash,
+            lastNonce: previous.nonce,
+          }
+        : null,
+      next,
+    };
+  }
+
+  /**
+   * Seed history for a user; server seeds only for revealed ones
+   */
+  public async listSeeds(userId: Types.ObjectId) {
+    const seeds = await this.seedRepository
+      .find({ user_id: userId })
+      .select("+server_seed")
+      .sort({ createdAt: -1 });
+
+    return seeds.map((s) => ({
+      seedId: s._id,
+      serverSeedHash: s.server_seed_hash,
+      serverSeed: s.active ? null : s.server_seed,
+      lastNonce: s.nonce,
+      active: s.active,
+      revealedAt: s.revealed_at,
+      createdAt: s.createdAt,
+    }));
+  }
+
+  /**
+   * Recompute a result from raw values (anyone can call this)
+   */
+  public verify(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    rows: number
+  ) {
+    return {
+      serverSeedHash: this.hashSeed(serverSeed),
+      winningRow: this.computeRow(serverSeed, clientSeed, nonce, rows),
+    };
+  }
+
+  /**
+   * Recompute a stored play once its seed has been revealed
+   */
+  public async verifyPlay(playId: Types.ObjectId) {
+    const play = await this.playRepository.findById(playId);
+    if (!play) throw new Error("Play not found");
+
+    const seed = await this.seedRepository
+      .findById(play.seed_id)
+      .select("+server_seed");
+    if (!seed) throw new Error("Seed not found");
+    if (seed.active) {
+      throw new Error("Server seed not revealed yet, rotate it to verify");
+    }
+
+    const { serverSeedHash, winningRow } = this.verify(
+      seed.server_seed,
+      play.client_seed,
+      play.nonce,
+      play.rows
+    );
+
+    return {
+      play,
+      serverSeed: seed.server_seed,
+      recomputedHash: serverSeedHash,
+      recomputedRow: winningRow,
+      valid:
+        serverSeedHash === play.server_seed_hash &&
+        winningRow === play.winning_row,
+    };
+  }
+
+  public async ensureActiveSeed(userId: Types.ObjectId) {
+    const exists = await this.seedRepository.exists({
+      user_id: userId,
+      active: true,
+    });
+    if (exists) return;
+
+    const serverSeed = crypto.randomBytes(32).toString("hex");
+    try {
+      await this.seedRepository.create({
+        user_id: userId,
+        server_seed: serverSeed,
+        server_seed_hash: this.hashSeed(serverSeed),
+        nonce: 0,
+        active: true,
+      });
+    } catch (error: any) {
+      // Another request created it first
+      if (error?.code !== 11000) throw error;
+    }
+  }
+}
+
+export const fairnessService = new FairnessService();
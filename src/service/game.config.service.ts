@@ -0,0 +1,134 @@
+import { Types } from "mongoose";
+import { PickARowConfigRepository } from "../db/game.config.db";
+
+export type PickARowSettings = {
+  rows: number;
+  payout_multiplier: number;
+  min_stake: number;
+  max_stake: number;
+  daily_loss_limit: number;
+  rtp_min: number;
+  rtp_max: number;
+};
+
+// 6 rows paying 5.7× → 95% expected return (5% house edge)
+export const DEFAULT_PICK_A_ROW_CONFIG: PickARowSettings = {
+  rows: 6,
+  payout_multiplier: 5.7,
+  min_stake: 1,
+  max_stake: 50,
+  daily_loss_limit: 50000,
+  rtp_min: 0.85,
+  rtp_max: 0.98,
+};
+
+class GameConfigService {
+  private readonly pickARowConfigRepository = PickARowConfigRepository;
+
+  /**
+   * Expected balance returned per unit staked: P(win) × multiplier
+   */
+  public expectedReturn(
+    config: Pick<PickARowSettings, "rows" | "payout_multiplier">
+  ) {
+    return config.payout_multiplier / config.rows;
+  }
+
+  public async getPickARowConfig(): Promise<PickARowSettings> {
+    const config = await this.pickARowConfigRepository
+      .findOneAndUpdate(
+        { game: "pick-a-row" },
+        { $setOnInsert: { game: "pick-a-row", ...DEFAULT_PICK_A_ROW_CONFIG } },
+        { new: true, upsert: true }
+      )
+      .lean();
+
+    return {
+      rows: config!.rows,
+      payout_multiplier: config!.payout_multiplier,
+      min_stake: config!.min_stake,
+      max_stake: config!.max_stake,
+      daily_loss_limit: config!.daily_loss_limit,
+      rtp_min: config!.rtp_min,
+      rtp_max: config!.rtp_max,
+    };
+  }
+
+  public async updatePickARowConfig(patch: unknown, actorId: Types.ObjectId) {
+    const current = await this.getPickARowConfig();
+    const next: PickARowSettings = {
+      ...current,
+      ...this.parsePickARowPatch(patch),
+    };
+    this.validatePickARowConfig(next);
+
+    await this.pickARowConfigRepository.updateOne(
+      { game: "pick-a-row" },
+      { $set: { ...next, updated_by: actorId } }
+    );
+
+    return { ...next, expected_return: this.expectedReturn(next) };
+  }
+
+  /**
+   * Only known fields, and every one a finite number, before anything is
+   * compared or merged into the live config
+   */
+  private parsePickARowPatch(patch: unknown): Partial<PickARowSettings> {
+    if (typeof patch !== "object" || patch === null || Array.isArray(patch)) {
+      throw new Error("Config update must be an object");
+    }
+
+    const allowed = Object.keys(DEFAULT_PICK_A_ROW_CONFIG);
+    const unknown = Object.keys(patch).filter((k) => !allowed.includes(k));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown config fields: ${unknown.join(", ")}`);
+    }
+
+    for (const [field, value] of Object.entries(patch)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`${field} must be a number`);
+      }
+    }
+    return patch as Partial<PickARowSettings>;
+  }
+
+  private validatePickARowConfig(config: PickARowSettings) {
+    const { rows, payout_multiplier, min_stake, max_stake } = config;
+
+    if (!Number.isInteger(rows) || rows < 2 || rows > 100) {
+      throw new Error("rows must be a whole number between 2 and 100");
+    }
+    // Above rows the game would pay out more than it takes in
+    if (!(payout_multiplier > 0 && payout_multiplier <= rows)) {
+      throw new Error("payout_multiplier must be greater than 0 and ≤ rows");
+    }
+    if (!Number.isInteger(min_stake) || min_stake < 1) {
+      throw new Error("min_stake must be a positive whole number");
+    }
+    if (!Number.isInteger(max_stake) || max_stake < min_stake) {
+      throw new Error("max_stake must be a whole number ≥ min_stake");
+    }
+    if (!(config.daily_loss_limit > 0)) {
+      throw new Error("daily_loss_limit must be greater than 0");
+    }
+    if (!(config.rtp_min > 0 && config.rtp_min <= config.rtp_max)) {
+      throw new Error("rtp_min must be greater than 0 and ≤ rtp_max");
+    }
+    // Never let the game pay out more than it takes in on average
+    if (config.rtp_max > 1) {
+      throw new Error("rtp_max cannot exceed 1 (negative house edge)");
+    }
+
+    const rtp = this.expectedReturn(config);
+    if (rtp < config.rtp_min || rtp > config.rtp_max) {
+      throw new Error(
+        `Expected return ${rtp.toFixed(4)} is outside ${config.rtp_min}–${
+          config.rtp_max
+        }`
+      );
+    }
+  }
+}
+
+export const gameConfigService = new GameConfigService();
@@ -0,0 +1,143 @@
+import { Types } from "mongoose";
+import { QuestionRepository } from "../db/game.question.db";
+import { IJob } from "../interfaces/interface";
+import { CATEGORY_IDS, requireCategory } from "../game/categories";
+import { createQuestionProvider, QuestionProvider } from "./providers";
+import { ingestionService } from "./ingestion.service";
+import { jobService } from "./job.service";
+import { jobWorker } from "./job.worker";
+
+export const GENERATE_QUESTIONS_JOB = "generate-questions";
+export const MAX_BATCH = 100;
+
+// Fresh = never asked and not retired
+const TOPUP_THRESHOLD = Number(process.env.QUESTION_TOPUP_THRESHOLD) || 100;
+const TOPUP_BATCH = Number(process.env.QUESTION_TOPUP_BATCH) || 50;
+const TOPUP_INTERVAL_MS = 5 * 60 * 1000;
+const TOPUP_THROTTLE_MS = 60 * 1000; // between checks triggered by rounds
+
+export type GenerationPayload = {
+  count: number;
+  categories: string[];
+  reason: "manual" | "top-up" | "empty";
+};
+
+/**
+ * Keeps the question bank stocked through background jobs so no round or
+ * request ever waits on a provider
+ */
+class GenerationService {
+  private readonly questionRepository = QuestionRepository;
+  private readonly ingestion = ingestionService;
+  private readonly jobs = jobService;
+  // Created on first use so a bad provider config doesn't stop the server
+  private provider?: QuestionProvider;
+  private interval: NodeJS.Timeout | null = null;
+  private lastCheck = 0;
+
+  /**
+   * Register the job handler and start the periodic bank check
+   */
+  public start(worker = jobWorker) {
+    worker.register(GENERATE_QUESTIONS_JOB, (job) => this.run(job));
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      this.topUp().catch((err) =>
+        console.error("❌ Question top-up check failed:", err)
+      );
+    }, TOPUP_INTERVAL_MS);
+  }
+
+  public stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  /**
+   * Queue a batch. Only one unrequested (system) batch is queued at a
+   * time; admins can queue more.
+   */
+  public async enqueue(
+    options: {
+      count?: number;
+      categories?: string[];
+      reason?: GenerationPayload["reason"];
+      requestedBy?: Types.ObjectId | null;
+    } = {}
+  ) {
+    const count = options.count ?? TOPUP_BATCH;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH) {
+      throw new Error(`count must be a whole number from 1 to ${MAX_BATCH}`);
+    }
+    const categories = options.categories?.length
+      ? [...new Set(options.categories.map(requireCategory))]
+      : CATEGORY_IDS;
+
+    const payload: GenerationPayload = {
+      count,
+      categories,
+      reason: options.reason ?? "manual",
+    };
+    return this.jobs.enqueue(GENERATE_QUESTIONS_JOB, payload, {
+      requestedBy: options.requestedBy ?? null,
+      ...(!options.requestedBy && { dedupeKey: GENERATE_QUESTIONS_JOB }),
+    });
+  }
+
+  /**
+   * Queue a batch if fresh questions are running low (or, when empty is
+   * set, because a room just found nothing to ask)
+   */
+  public async topUp(options: { empty?: boolean } = {}) {
+    this.lastCheck = Date.now();
+    const fresh = await this.questionRepository.countDocuments({
+      used: false,
+      retired: { $ne: true },
+    });
+    if (fresh >= TOPUP_THRESHOLD && !options.empty) {
+      return { fresh, threshold: TOPUP_THRESHOLD, job: null };
+    }
+
+    const job = await this.enqueue({
+      reason: options.empty ? "empty" : "top-up",
+    });
+    return { fresh, threshold: TOPUP_THRESHOLD, job };
+  }
+
+  /**
+   * Fire-and-forget top-up check after a pick; at most once a minute
+   * unless the bank came up empty
+   */
+  public requestTopUp(empty = false) {
+    if (!empty && Date.now() - this.lastCheck < TOPUP_THROTTLE_MS) return;
+    this.topUp({ empty }).catch((err) =>
+      console.error("❌ Question top-up check failed:", err)
+    );
+  }
+
+  /**
+   * One batch from the configured provider (see providers/index.ts), run
+   * through the ingestion checks. Throws to have the job retried.
+   */
+  private async run(job: IJob) {
+    const { count, categories } = job.payload as GenerationPayload;
+    this.provider ??= createQuestionProvider();
+
+    const questions = await this.provider.generate({ count, categories });
+    if (questions.length === 0) {
+      throw new Error(`${this.provider.name} returned no questions`);
+    }
+
+    // Checked, scored and either inserted or quarantined
+    const { report } = await this.ingestion.ingest(
+      questions,
+      this.provider.name
+    );
+    console.log(
+      `🎉 ${report.source}: ${report.inserted} inserted, ${report.quarantined} quarantined, ${report.duplicates} duplicates of ${report.received}`
+    );
+    return report;
+  }
+}
+
+export const generationService = new GenerationService();
@@ -0,0 +1,169 @@
+import { PipelineStage, Types } from "mongoose";
+import { PickARowPlayRepository } from "../db/game.pickarow.play.db";
+import { TriviaRoundRepository } from "../db/game.trivia.round.db";
+
+export type HistoryGame = "trivia" | "pick-a-row";
+
+export type HistoryFilters = {
+  game?: HistoryGame;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+};
+
+class HistoryService {
+  private readonly playRepository = PickARowPlayRepository;
+  private readonly triviaRoundRepository = TriviaRoundRepository;
+
+  /**
+   * Trivia rounds and Pick a Row plays for one user in a single
+   * newest-first list, with what they spent and won on each
+   */
+  public async getUserHistory(userId: Types.ObjectId, filters: HistoryFilters) {
+    const createdAt: Record<string, Date> = {};
+    if (filters.from) createdAt.$gte = filters.from;
+    if (filters.to) createdAt.$lte = filters.to;
+    const dateMatch = Object.keys(createdAt).length ? { createdAt } : {};
+
+    const pickARow: PipelineStage.FacetPipelineStage[] = [
+      { $match: { user_id: userId, ...dateMatch } },
+      {
+        $project: {
+          _id: 1,
+          game: { $literal: "pick-a-row" },
+          playedAt: "$createdAt",
+          tokensSpent: "$stake_tokens",
+          payout: "$payout",
+          outcome: { $cond: ["$won", "won", "lost"] },
+          details: {
+            userRow: "$user_row",
+            winningRow: "$winning_row",
+            rows: "$rows",
+            payoutMultiplier: "$payout_multiplier",
+            serverSeedHash: "$server_seed_hash",
+            clientSeed: "$client_seed",
+            nonce: "$nonce",
+          },
+        },
+      },
+    ];
+
+    // Narrow a round's array to this user's entries
+    const mine = (input: unknown) => ({
+      $filter: {
+        input,
+        as: "x",
+        cond: { $eq: ["$$x.user_id", userId] },
+      },
+    });
+
+    const trivia: PipelineStage.FacetPipelineStage[] = [
+      {
+        $match: {
+          $or: [
+            { "participants.user_id": userId },
+            { "submissions.user_id": userId },
+          ],
+          ...dateMatch,
+        },
+      },
+      {
+        $addFields: {
+          mySubmissions: mine("$submissions"),
+          myPayouts: mine({ $ifNull: ["$payouts", []] }),
+        },
+      },
+      {
+        $project: {
+          _id: 1,
+          game: { $literal: "trivia" },
+          playedAt: "$createdAt",
+          tokensSpent: { $sum: "$mySubmissions.tokens_spent" },
+          payout: { $sum: "$myPayouts.amount" },
+          outcome: {
+            $cond: [
+              { $eq: ["$winner_id", userId] },
+              "won",
+              {
+                $cond: [
+                  { $gt: [{ $size: "$mySubmissions" }, 0] },
+                  "lost",
+                  "no_answer",
+                ],
+              },
+            ],
+          },
+          details: {
+            room: "$room",
+            round: "$round",
+            question: "$question",
+            correctAnswer: "$correct_answer",
+            answers: "$mySubmissions.answer",
+            winner: "$winner_username",
+            rule: "$rule",
+          },
+        },
+      },
+    ];
+    const skip = (filters.page - 1) * filters.limit;
+    const page: PipelineStage[] = [
+      { $sort: { playedAt: -1, _id: -1 } },
+      {
+        $facet: {
+          items: [{ $skip: skip }, { $limit: filters.limit }],
+          totals: [
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                tokensSpent: { $sum: "$tokensSpent" },
+                payout: { $sum: "$payout" },
+              },
+            },
+          ],
+        },
+      },
+    ];
+
+    let result: any[];
+    if (filters.game === "pick-a-row") {
+      result = await this.playRepository.aggregate([
+        ...(pickARow as PipelineStage[]),
+        ...page,
+      ]);
+    } else if (filters.game === "trivia") {
+      result = await this.triviaRoundRepository.aggregate([
+        ...(trivia as PipelineStage[]),
+        ...page,
+      ]);
+    } else {
+      result = await this.playRepository.aggregate([
+        ...(pickARow as PipelineStage[]),
+        {
+          $unionWith: {
+            coll: this.triviaRoundRepository.collection.name,
+            pipeline: trivia,
+          },
+        },
+        ...page,
+      ]);
+    }
+
+    const [{ items, totals }] = result;
+    const summary = totals[0] ?? { count: 0, tokensSpent: 0, payout: 0 };
+
+    return {
+      items,
+      page: filters.page,
+      limit: filters.limit,
+      total: summary.count,
+      totals: {
+        tokensSpent: summary.tokensSpent,
+        payout: summary.payout,
+      },
+    };
+  }
+}
+
+export const historyService = new HistoryService();
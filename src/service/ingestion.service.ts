@@ -0,0 +1,360 @@
+import { Types } from "mongoose";
+import { QuestionRepository } from "../db/game.question.db";
+import { QuestionQuarantineRepository } from "../db/game.question.quarantine.db";
+import { IQuestionQuarantine, QuestionType } from "../interfaces/interface";
+import { normalizeAnswer } from "../game/answer.matcher";
+import { DEFAULT_CATEGORY, resolveCategory } from "../game/categories";
+import { isDifficulty } from "../game/difficulty";
+import { containsProfanity } from "../game/profanity";
+import { Fingerprint, fingerprint, mostSimilar } from "../game/similarity";
+import { ConflictError } from "./errors";
+import {
+  QuestionInput,
+  questionKey,
+  questionService,
+} from "./question.service";
+
+// Tighter than what admins may enter by hand
+export const INGEST_LIMITS = {
+  questionMin: 10,
+  questionMax: 300,
+  answerMax: 100,
+  optionMax: 100,
+};
+export const NEAR_DUPLICATE = 0.85; // similarity at which it's the same question
+const SIMILAR = 0.7; // close enough to count against the score
+export const MIN_SCORE = 0.7; // below this it waits for review
+
+export type QuarantineStatus = IQuestionQuarantine["status"];
+
+export type IngestReport = {
+  source: string;
+  received: number;
+  inserted: number;
+  quarantined: number;
+  duplicates: number; // exact repeats, dropped
+};
+
+// Soft issues: recorded as reasons and taken off the 0-1 score
+const FLAGS = {
+  category: { reason: "category not in the registry", penalty: 0.2 },
+  difficulty: { reason: "difficulty missing or unknown", penalty: 0.1 },
+  similar: { reason: "similar to another question", penalty: 0.25 },
+  punctuation: { reason: "question does not end with ?", penalty: 0.1 },
+  // Long free-text answers are hard to type and to match
+  longAnswer: { reason: "free-text answer longer than 5 words", penalty: 0.2 },
+};
+type Flag = keyof typeof FLAGS;
+
+type BankEntry = { print: Fingerprint; item: Types.ObjectId | null };
+
+type Verdict = {
+  value?: QuestionInput;
+  problems: string[]; // any of these sends it to quarantine
+  flags: Flag[];
+  score: number;
+  duplicate: boolean;
+  similarTo: { id: Types.ObjectId | null; score: number } | null;
+};
+
+const FIELD_TYPES: Record<string, "string" | "string[]"> = {
+  question: "string",
+  answer: "string",
+  acceptable_answers: "string[]",
+  type: "string",
+  options: "string[]",
+  category: "string",
+  difficulty: "string",
+};
+
+/**
+ * Checks generated questions before they reach the bank. Clean ones are
+ * inserted; anything failing a check or scoring low is quarantined for an
+ * admin to approve or reject.
+ */
+class IngestionService {
+  private readonly questionRepository = QuestionRepository;
+  private readonly quarantineRepository = QuestionQuarantineRepository;
+  private readonly questions = questionService;
+
+  public async ingest(items: unknown[], source: string) {
+    const bank = await this.questionRepository.find({}, { question: 1 }).lean();
+    const keys = new Set(bank.map((q) => questionKey(q.question)));
+    // Grows with the batch so repeats within it are caught too
+    const corpus: BankEntry[] = bank.map((q) => ({
+      print: fingerprint(q.question),
+      item: q._id as Types.ObjectId,
+    }));
+
+    const accepted: QuestionInput[] = [];
+    const quarantined: Partial<IQuestionQuarantine>[] = [];
+    let duplicates = 0;
+
+    for (const raw of items) {
+      const verdict = this.check(raw, keys, corpus);
+      if (verdict.duplicate) {
+        duplicates++;
+        continue;
+      }
+
+      if (verdict.value) {
+        keys.add(questionKey(verdict.value.question));
+        corpus.push({ print: fingerprint(verdict.value.question), item: null });
+      }
+
+      if (
+        verdict.value &&
+        verdict.problems.length === 0 &&
+        verdict.score >= MIN_SCORE
+      ) {
+        accepted.push(verdict.value);
+        continue;
+      }
+
+      quarantined.push({
+        source,
+        raw,
+        candidate: verdict.value ?? null,
+        reasons: [
+          ...verdict.problems,
+          ...verdict.flags.map((f) => FLAGS[f].reason),
+          ...(verdict.score < MIN_SCORE ? ["low quality score"] : []),
+        ],
+        score: verdict.score,
+        similar_to: verdict.similarTo?.id ?? null,
+        similarity: verdict.similarTo?.score ?? null,
+      });
+    }
+
+    const inserted =
+      accepted.length > 0
+        ? await this.questionRepository.insertMany(accepted)
+        : [];
+    if (quarantined.length > 0) {
+      await this.quarantineRepository.insertMany(quarantined);
+    }
+
+    const report: IngestReport = {
+      source,
+      received: items.length,
+      inserted: inserted.length,
+      quarantined: quarantined.length,
+      duplicates,
+    };
+    return { report, inserted };
+  }
+
+  /**
+   * Run every check on one generated item. Exact repeats of the bank are
+   * only marked as duplicates; there is nothing to review.
+   */
+  public check(raw: unknown, keys: Set<string>, corpus: BankEntry[]): Verdict {
+    const verdict: Verdict = {
+      problems: [],
+      flags: [],
+      score: 0,
+      duplicate: false,
+      similarTo: null,
+    };
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      verdict.problems.push("not an object");
+      return verdict;
+    }
+
+    // Strict schema: known fields must have the right type
+    const item = raw as Record<string, unknown>;
+    for (const [field, type] of Object.entries(FIELD_TYPES)) {
+      const value = item[field];
+      if (value === undefined || value === null) continue;
+      const ok =
+        type === "string"
+          ? typeof value === "string"
+          : Array.isArray(value) && value.every((v) => typeof v === "string");
+      if (!ok) verdict.problems.push(`${field} must be a ${type}`);
+    }
+    if (verdict.problems.length > 0) return verdict;
+
+    const category = resolveCategory(item.category);
+    if (!category) verdict.flags.push("category");
+    const difficulty = isDifficulty(item.difficulty)
+      ? item.difficulty
+      : undefined;
+    if (!difficulty) verdict.flags.push("difficulty");
+
+    // Only generated fields; a generator can't set its own reward
+    const { value, errors } = this.questions.validate({
+      question: item.question,
+      answer: item.answer,
+      acceptable_answers: item.acceptable_answers,
+      type: item.type,
+      options: item.options,
+      category: category?.id ?? DEFAULT_CATEGORY,
+      difficulty,
+    });
+    verdict.problems.push(...errors);
+    if (!value) return verdict;
+    verdict.value = value;
+
+    verdict.problems.push(...this.contentProblems(value));
+
+    const key = questionKey(value.question);
+    if (keys.has(key)) {
+      verdict.duplicate = true;
+      return verdict;
+    }
+
+    const closest = mostSimilar(fingerprint(value.question), corpus, SIMILAR);
+    if (closest) {
+      verdict.similarTo = { id: closest.item, score: closest.score };
+      if (closest.score >= NEAR_DUPLICATE) {
+        verdict.problems.push("near duplicate of another question");
+      } else {
+        verdict.flags.push("similar");
+      }
+    }
+
+    if (
+      value.type !== QuestionType.TRUE_FALSE &&
+      !value.question.endsWith("?")
+    ) {
+      verdict.flags.push("punctuation");
+    }
+    if (
+      value.type === QuestionType.FREE_TEXT &&
+      value.answer.split(/\s+/).length > 5
+    ) {
+      verdict.flags.push("longAnswer");
+    }
+
+    const penalty = verdict.flags.reduce((sum, f) => sum + FLAGS[f].penalty, 0);
+    verdict.score = Math.max(0, Math.round((1 - penalty) * 100) / 100);
+    return verdict;
+  }
+
+  public async listQuarantine(filters: {
+    status?: QuarantineStatus;
+    page: number;
+    limit: number;
+  }) {
+    const query = filters.status ? { status: filters.status } : {};
+    const [items, total] = await Promise.all([
+      this.quarantineRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      this.quarantineRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+
+  /**
+   * Add a quarantined item to the bank, with optional edits applied on top.
+   * The usual question validation and uniqueness checks still apply.
+   */
+  public async approve(
+    id: Types.ObjectId,
+    reviewerId: Types.ObjectId,
+    edits: Record<string, unknown> = {}
+  ) {
+    const entry = await this.pending(id);
+    const base = (entry.candidate ?? entry.raw ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const question = await this.questions.create({ ...base, ...edits });
+
+    const updated = await this.quarantineRepository.findOneAndUpdate(
+      { _id: id, status: "pending" },
+      {
+        $set: {
+          status: "approved",
+          question_id: question._id,
+          reviewed_by: reviewerId,
+          reviewed_at: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!updated) {
+      // Reviewed by someone else meanwhile; undo our insert
+      await this.questionRepository.deleteOne({ _id: question._id });
+      throw new ConflictError("Quarantined question was already reviewed");
+    }
+    return { entry: updated, question };
+  }
+
+  public async reject(id: Types.ObjectId, reviewerId: Types.ObjectId) {
+    await this.pending(id);
+    const updated = await this.quarantineRepository.findOneAndUpdate(
+      { _id: id, status: "pending" },
+      {
+        $set: {
+          status: "rejected",
+          reviewed_by: reviewerId,
+          reviewed_at: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!updated) {
+      throw new ConflictError("Quarantined question was already reviewed");
+    }
+    return updated;
+  }
+
+  private async pending(id: Types.ObjectId) {
+    const entry = await this.quarantineRepository.findById(id);
+    if (!entry) throw new Error("Quarantined question not found");
+    if (entry.status !== "pending") {
+      throw new ConflictError("Quarantined question was already reviewed");
+    }
+    return entry;
+  }
+
+  private contentProblems(value: QuestionInput) {
+    const problems: string[] = [];
+    const { questionMin, questionMax, answerMax, optionMax } = INGEST_LIMITS;
+
+    if (
+      value.question.length < questionMin ||
+      value.question.length > questionMax
+    ) {
+      problems.push(
+        `question must be ${questionMin}-${questionMax} characters`
+      );
+    }
+    if (value.answer.length > answerMax) {
+      problems.push(`answer must be at most ${answerMax} characters`);
+    }
+    if (value.options.some((o) => o.length > optionMax)) {
+      problems.push(`options must be at most ${optionMax} characters`);
+    }
+
+    // "Who painted the Mona Lisa, Leonardo da Vinci?"; true/false answers
+    // are never in the text
+    if (value.type !== QuestionType.TRUE_FALSE) {
+      const answer = normalizeAnswer(value.answer);
+      const question = ` ${normalizeAnswer(value.question)} `;
+      if (answer && question.includes(` ${answer} `)) {
+        problems.push("answer appears in the question");
+      }
+    }
+
+    if (
+      containsProfanity(
+        value.question,
+        value.answer,
+        ...value.acceptable_answers,
+        ...value.options
+      )
+    ) {
+      problems.push("contains profanity");
+    }
+
+    return problems;
+  }
+}
+
+export const ingestionService = new IngestionService();
@@ -0,0 +1,167 @@
+import { Types } from "mongoose";
+import { JobRepository } from "../db/game.job.db";
+import { IJob } from "../interfaces/interface";
+
+export type JobStatus = IJob["status"];
+
+export type EnqueueOptions = {
+  maxAttempts?: number;
+  runAt?: Date;
+  requestedBy?: Types.ObjectId | null;
+  // While a job with this key is queued or running, enqueue returns it
+  // instead of adding another
+  dedupeKey?: string;
+};
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+// A running job whose worker hasn't finished it by now is presumed dead
+export const JOB_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, ... capped at 30m
+ */
+export const backoffDelay = (attempts: number) =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+
+/**
+ * Mongo-backed job queue. Jobs are claimed atomically so any number of
+ * instances can run workers against the same collection.
+ */
+class JobService {
+  private readonly jobRepository = JobRepository;
+
+  public async enqueue(
+    type: string,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions = {}
+  ) {
+    while (true) {
+      try {
+        return await this.jobRepository.create({
+          type,
+          payload,
+          max_attempts: options.maxAttempts ?? 5,
+          run_at: options.runAt ?? new Date(),
+          requested_by: options.requestedBy ?? null,
+          ...(options.dedupeKey && { dedupe_key: options.dedupeKey }),
+        });
+      } catch (error: any) {
+        if (error.code !== 11000 || !options.dedupeKey) throw error;
+        const existing = await this.jobRepository.findOne({
+          dedupe_key: options.dedupeKey,
+        });
+        // Otherwise it finished between the insert and this read: retry
+        if (existing) return existing;
+      }
+    }
+  }
+
+  public async get(id: Types.ObjectId) {
+    const job = await this.jobRepository.findById(id);
+    if (!job) throw new Error("Job not found");
+    return job;
+  }
+
+  public async list(filters: {
+    status?: JobStatus;
+    type?: string;
+    page: number;
+    limit: number;
+  }) {
+    const query: Record<string, unknown> = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.type) query.type = filters.type;
+
+    const [items, total] = await Promise.all([
+      this.jobRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      this.jobRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+
+  /**
+   * Take the next due job of one of the given types, or a running one
+   * whose lease ran out. Counts as an attempt.
+   */
+  public async claim(types: string[], owner: string) {
+    const now = new Date();
+    return this.jobRepository.findOneAndUpdate(
+      {
+        type: { $in: types },
+        $or: [
+          { status: "queued", run_at: { $lte: now } },
+          {
+            status: "running",
+            locked_at: { $lt: new Date(now.getTime() - JOB_LEASE_MS) },
+          },
+        ],
+      },
+      {
+        $set: { status: "running", locked_by: owner, locked_at: now },
+        $inc: { attempts: 1 },
+      },
+      { sort: { run_at: 1 }, new: true }
+    );
+  }
+
+  public async complete(job: IJob, result: unknown) {
+    return this.jobRepository.updateOne(this.claimed(job), {
+      $set: {
+        status: "succeeded",
+        result,
+        last_error: null,
+        locked_by: null,
+        finished_at: new Date(),
+      },
+      $unset: { dedupe_key: 1 },
+    });
+  }
+
+  /**
+   * Requeue with backoff, or give up once out of attempts
+   */
+  public async fail(job: IJob, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lock = this.claimed(job);
+
+    if (job.attempts >= job.max_attempts) {
+      return this.jobRepository.updateOne(lock, {
+        $set: {
+          status: "failed",
+          last_error: message,
+          locked_by: null,
+          finished_at: new Date(),
+        },
+        $unset: { dedupe_key: 1 },
+      });
+    }
+
+    return this.jobRepository.updateOne(lock, {
+      $set: {
+        status: "queued",
+        last_error: message,
+        locked_by: null,
+        locked_at: null,
+        run_at: new Date(Date.now() + backoffDelay(job.attempts)),
+      },
+    });
+  }
+
+  // Still held by this claim, not taken over after the lease ran out
+  private claimed(job: IJob) {
+    return {
+      _id: job._id,
+      status: "running",
+      locked_by: job.locked_by,
+      locked_at: job.locked_at,
+    };
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,92 @@
+import { IJob } from "../interfaces/interface";
+import { INSTANCE_ID } from "../cluster/leader";
+import { jobService } from "./job.service";
+
+export type JobHandler = (job: IJob) => Promise<unknown>;
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Runs queued jobs one at a time on this instance. Handlers throw to have
+ * the job retried with backoff; what they return is stored as the result.
+ */
+export class JobWorker {
+  private readonly handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private current: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly jobs = jobService,
+    private readonly owner: string = INSTANCE_ID
+  ) {}
+
+  public register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  public start() {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+    console.log(
+      `⚙️ Job worker started for ${[...this.handlers.keys()].join(", ")}`
+    );
+  }
+
+  /**
+   * Stop polling and wait for the job in progress, if any
+   */
+  public async stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.current;
+  }
+
+  private schedule(delay: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.current = this.tick();
+    }, delay);
+  }
+
+  private async tick() {
+    let worked = false;
+    try {
+      const job = await this.jobs.claim([...this.handlers.keys()], this.owner);
+      if (job) {
+        worked = true;
+        await this.run(job);
+      }
+    } catch (err) {
+      console.error("❌ Job worker error:", err);
+    }
+    // Drain the queue, then fall back to polling
+    this.schedule(worked ? 0 : POLL_INTERVAL_MS);
+  }
+
+  private async run(job: IJob) {
+    // Reclaimed after its worker died with no attempts left
+    if (job.attempts > job.max_attempts) {
+      await this.jobs.fail(job, job.last_error ?? "Worker lost the job");
+      return;
+    }
+
+    const handler = this.handlers.get(job.type)!;
+    console.log(`⚙️ Job ${job._id} (${job.type}) attempt ${job.attempts}`);
+    try {
+      const result = await handler(job);
+      await this.jobs.complete(job, result ?? null);
+      console.log(`✅ Job ${job._id} (${job.type}) done`);
+    } catch (err: any) {
+      await this.jobs.fail(job, err);
+      console.warn(
+        `⚠️ Job ${job._id} (${job.type}) failed attempt ${job.attempts}/${job.max_attempts}: ${err.message}`
+      );
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
@@ -0,0 +1,293 @@
+import mongoose, { ClientSession, Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { Transaction } from "../db/transaction.db";
+import {
+  LedgerAsset,
+  LedgerEntry,
+  LedgerReason,
+} from "../interfaces/interface";
+import { AlreadyPostedError, ConflictError } from "./errors";
+
+// System accounts on the other side of every user entry
+export const LedgerAccount = {
+  SALES: "system:sales", // tokens bought with real money
+  REFERRALS: "system:referrals", // referral bonuses
+  HOUSE: "system:house", // stakes in, game rewards out
+  EXCHANGE: "system:exchange", // balance <-> token conversion
+  WITHDRAWALS_PENDING: "system:withdrawals_pending",
+  PAYOUTS: "system:payouts", // approved withdrawals leaving the platform
+  OPENING: "system:opening", // balances that predate the ledger
+} as const;
+
+export type LedgerLeg = {
+  asset: LedgerAsset;
+  amount: number; // signed, from the user's point of view
+  counterAccount: string;
+};
+
+export type UserTransfer = {
+  userId: Types.ObjectId;
+  reason: LedgerReason;
+  referenceId?: string | null;
+  legs: LedgerLeg[];
+  metadata?: Record<string, unknown>;
+};
+
+const assetField: Record<LedgerAsset, "tokens" | "balance"> = {
+  [LedgerAsset.TOKEN]: "tokens",
+  [LedgerAsset.BALANCE]: "balance",
+};
+
+class LedgerService {
+  private readonly gameUserRepository = GameUserRepository;
+  private readonly transactionRepository = Transaction;
+
+  public userAccount(userId: Types.ObjectId | string) {
+    return `user:${userId.toString()}`;
+  }
+
+  /**
+   * Run fn inside a MongoDB transaction. Write conflicts that survive the
+   * driver's own retries are surfaced as ConflictError.
+   */
+  public async runInTransaction<T>(
+    fn: (session: ClientSession) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await mongoose.connection.transaction(fn);
+    } catch (error: any) {
+      if (
+        error?.code === 112 || // WriteConflict
+        error?.errorLabels?.includes?.("TransientTransactionError")
+      ) {
+        throw new ConflictError(
+          "Another request updated this account at the same time, please retry"
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply legs to a user's tokens/balance and record the balanced journal.
+   * Returns null (and records nothing) if the user is missing or would go negative.
+   * Without a session the update and journal run in their own transaction.
+   * Throws AlreadyPostedError, with nothing applied, if the reference was
+   * already posted for this reason.
+   */
+  public async postUserTransfer(
+    params: UserTransfer,
+    session?: ClientSession
+  ): ReturnType<LedgerService["applyUserTransfer"]> {
+    if (!session) {
+      return this.runInTransaction((s) => this.applyUserTransfer(params, s));
+    }
+    return this.applyUserTransfer(params, session);
+  }
+
+  private async applyUserTransfer(
+    params: UserTransfer,
+    session: ClientSession
+  ) {
+    const { userId, reason, referenceId, legs, metadata } = params;
+    if (legs.length === 0)
+      throw new Error("Ledger transfer needs at least one leg");
+
+    const filter: Record<string, unknown> = { _id: userId };
+    const inc: Record<string, number> = {};
+    for (const leg of legs) {
+      if (!Number.isFinite(leg.amount) || leg.amount === 0) {
+        throw new Error(`Invalid ledger amount: ${leg.amount}`);
+      }
+      const field = assetField[leg.asset];
+      inc[field] = (inc[field] ?? 0) + leg.amount;
+    }
+    // Only debits need a funds check
+    for (const [field, delta] of Object.entries(inc)) {
+      if (delta < 0) filter[field] = { $gte: -delta };
+    }
+
+    const user = await this.gameUserRepository.findOneAndUpdate(
+      filter,
+      { $inc: inc },
+      { new: true, session }
+    );
+    if (!user) return null;
+
+    const entries: LedgerEntry[] = legs.flatMap((leg) => [
+      {
+        account: this.userAccount(userId),
+        user_id: userId,
+        asset: leg.asset,
+        amount: leg.amount,
+      },
+      {
+        account: leg.counterAccount,
+        user_id: null,
+        asset: leg.asset,
+        amount: -leg.amount,
+      },
+    ]);
+
+    await this.record(reason, entries, referenceId, metadata, session);
+
+    return user;
+  }
+
+  /**
+   * Record a journal without touching user documents (system-to-system moves).
+   * The unique (reason, reference_id) index turns a second posting into
+   * AlreadyPostedError; inside a transaction that also aborts it.
+   */
+  public async record(
+    reason: LedgerReason,
+    entries: LedgerEntry[],
+    referenceId?: string | null,
+    metadata?: Record<string, unknown>,
+    session?: ClientSession
+  ) {
+    this.assertBalanced(entries);
+
+    try {
+      const [journal] = await this.transactionRepository.create(
+        [
+          {
+            reason,
+            reference_id: referenceId ?? null,
+            entries,
+            metadata,
+          },
+        ],
+        { session }
+      );
+      return journal;
+    } catch (error: any) {
+      if (error?.code === 11000 && referenceId) {
+        throw new AlreadyPostedError(reason, referenceId);
+      }
+      throw error;
+    }
+  }
+
+  public async getUserHistory(
+    userId: Types.ObjectId,
+    page: number = 1,
+    limit: number = 20
+  ) {
+    const filter = { "entries.user_id": userId };
+    const [items, total] = await Promise.all([
+      this.transactionRepository
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.transactionRepository.countDocuments(filter),
+    ]);
+
+    // Only show the user's side of each journal
+    const account = this.userAccount(userId);
+    return {
+      items: items.map((t) => ({
+        _id: t._id,
+        reason: t.reason,
+        reference_id: t.reference_id,
+        createdAt: t.createdAt,
+        entries: t.entries.filter((e) => e.account === account),
+      })),
+      page,
+      limit,
+      total,
+    };
+  }
+
+  /**
+   * Sum the user's ledger entries per asset and compare with the stored totals.
+   */
+  public async reconcileUser(userId: Types.ObjectId) {
+    const user = await this.gameUserRepository
+      .findById(userId)
+      .select("tokens balance");
+    if (!user) throw new Error("User not found");
+
+    const sums = await this.transactionRepository.aggregate<{
+      _id: LedgerAsset;
+      total: number;
+    }>([
+      { $match: { "entries.user_id": userId } },
+      { $unwind: "$entries" },
+      { $match: { "entries.user_id": userId } },
+      { $group: { _id: "$entries.asset", total: { $sum: "$entries.amount" } } },
+    ]);
+
+    const ledgerTokens =
+      sums.find((s) => s._id === LedgerAsset.TOKEN)?.total ?? 0;
+    const ledgerBalance =
+      sums.find((s) => s._id === LedgerAsset.BALANCE)?.total ?? 0;
+
+    return {
+      tokens: {
+        stored: user.tokens,
+        ledger: ledgerTokens,
+        drift: user.tokens - ledgerTokens,
+      },
+      balance: {
+        stored: user.balance,
+        ledger: ledgerBalance,
+        drift: user.balance - ledgerBalance,
+      },
+      balanced: user.tokens === ledgerTokens && user.balance === ledgerBalance,
+    };
+  }
+
+  /**
+   * Record opening entries for whatever the ledger can't explain yet
+   * (users that existed before the ledger was introduced).
+   */
+  public async backfillOpeningBalance(userId: Types.ObjectId) {
+    const report = await this.reconcileUser(userId);
+    const entries: LedgerEntry[] = [];
+
+    for (const asset of [LedgerAsset.TOKEN, LedgerAsset.BALANCE]) {
+      const drift =
+        asset === LedgerAsset.TOKEN
+          ? report.tokens.drift
+          : report.balance.drift;
+      if (drift === 0) continue;
+      entries.push(
+        {
+          account: this.userAccount(userId),
+          user_id: userId,
+          asset,
+          amount: drift,
+        },
+        {
+          account: LedgerAccount.OPENING,
+          user_id: null,
+          asset,
+          amount: -drift,
+        }
+      );
+    }
+
+    if (entries.length === 0) return null;
+    return this.record(LedgerReason.OPENING_BALANCE, entries);
+  }
+
+  private assertBalanced(entries: LedgerEntry[]) {
+    if (entries.length < 2)
+      throw new Error("Ledger journal must have two sides");
+
+    const totals = new Map<LedgerAsset, number>();
+    for (const e of entries) {
+      totals.set(e.asset, (totals.get(e.asset) ?? 0) + e.amount);
+    }
+    for (const [asset, total] of totals) {
+      if (total !== 0) {
+        throw new Error(`Unbalanced ledger journal for ${asset}: ${total}`);
+      }
+    }
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,151 @@
+import { Types } from "mongoose";
+import { PickARowDailyLossRepository } from "../db/game.pickarow.loss.db";
+import { PickARowPlayRepository } from "../db/game.pickarow.play.db";
+import { LedgerReason } from "../interfaces/interface";
+import { fairnessService } from "./fairness.service";
+import { gameConfigService } from "./game.config.service";
+import { ledgerService } from "./ledger.service";
+import { BALANCE_PER_TOKEN, gameService } from "./service";
+
+class PickARowService {
+  private readonly playRepository = PickARowPlayRepository;
+  private readonly lossRepository = PickARowDailyLossRepository;
+  private readonly fairness = fairnessService;
+  private readonly configService = gameConfigService;
+
+  /**
+   * Charge the stake, roll the row from the committed seed, pay out and
+   * persist the play with everything needed to verify it later, all in
+   * one transaction
+   */
+  public async play(
+    userId: Types.ObjectId,
+    userRow: number,
+    stakeTokens: number,
+    clientSeed?: unknown
+  ) {
+    const config = await this.configService.getPickARowConfig();
+
+    if (!Number.isInteger(userRow) || userRow < 1 || userRow > config.rows) {
+      throw new Error(`Row must be 1–${config.rows}`);
+    }
+    if (
+      !Number.isInteger(stakeTokens) ||
+      stakeTokens < config.min_stake ||
+      stakeTokens > config.max_stake
+    ) {
+      throw new Error(
+        `Stake must be ${config.min_stake}–${config.max_stake} tokens`
+      );
+    }
+    const seedForPlay = this.fairness.validateClientSeed(clientSeed);
+
+    // Worst case this play loses the whole stake
+    const stakeValue = stakeTokens * BALANCE_PER_TOKEN;
+    if (stakeValue > config.daily_loss_limit) {
+      throw new Error("Daily loss limit reached, come back tomorrow");
+    }
+
+    const day = new Date().toISOString().slice(0, 10);
+    await this.ensureLossCounter(userId, day);
+    await this.fairness.ensureActiveSeed(userId);
+
+    // Stake, roll, payout and play commit together, so a failed roll or
+    // insert never keeps the stake or burns a nonce
+    return ledgerService.runInTransaction(async (session) => {
+      // Reserve the worst case against today's limit, conditionally so
+      // parallel plays can't both slip under it
+      const reserved = await this.lossRepository.findOneAndUpdate(
+        {
+          user_id: userId,
+          day,
+          loss: { $lte: config.daily_loss_limit - stakeValue },
+        },
+        { $inc: { loss: stakeValue } },
+        { new: true, session }
+      );
+      if (!reserved) {
+        throw new Error("Daily loss limit reached, come back tomorrow");
+      }
+
+      const playId = new Types.ObjectId();
+      const staked = await gameService.useToken(
+        userId,
+        stakeTokens,
+        playId.toString(),
+        session
+      );
+      if (!staked) throw new Error("Insufficient tokens");
+
+      const roll = await this.fairness.nextRoll(
+        userId,
+        seedForPlay,
+        config.rows,
+        session
+      );
+      const won = roll.row === userRow;
+      const payout = won
+        ? Math.round(stakeValue * config.payout_multiplier)
+        : 0;
+
+      let user = staked;
+      if (won) {
+        user =
+          (await gameService.addBalance(
+            userId,
+            payout,
+            LedgerReason.PICKAROW_PAYOUT,
+            playId.toString(),
+            session
+          )) ?? staked;
+        await this.lossRepository.updateOne(
+          { _id: reserved._id },
+          { $inc: { loss: -payout } },
+          { session }
+        );
+      }
+
+      const [play] = await this.playRepository.create(
+        [
+          {
+            _id: playId,
+            user_id: userId,
+            stake_tokens: stakeTokens,
+            user_row: userRow,
+            winning_row: roll.row,
+            rows: config.rows,
+            payout_multiplier: config.payout_multiplier,
+            won,
+            payout,
+            seed_id: roll.seedId,
+            server_seed_hash: roll.serverSeedHash,
+            client_seed: roll.clientSeed,
+            nonce: roll.nonce,
+          },
+        ],
+        { session }
+      );
+
+      return { play, staked, user };
+    });
+  }
+
+  /**
+   * Today's loss counter has to exist before the transaction, so the
+   * limit check inside it is a plain conditional update. Parallel first
+   * plays of the day race here on the unique index, not in the check.
+   */
+  private async ensureLossCounter(userId: Types.ObjectId, day: string) {
+    try {
+      await this.lossRepository.updateOne(
+        { user_id: userId, day },
+        { $setOnInsert: { loss: 0 } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+  }
+}
+
+export const pickARowService = new PickARowService();
@@ -0,0 +1,57 @@
+import { OfflineQuestionProvider } from "./offline.provider";
+import { OpenAICompatibleProvider, TogetherProvider } from "./openai.provider";
+import { QuestionProvider } from "./provider";
+
+export * from "./provider";
+export { OfflineQuestionProvider } from "./offline.provider";
+export {
+  OpenAICompatibleProvider,
+  TogetherProvider,
+  parseQuestionList,
+} from "./openai.provider";
+
+const PROVIDERS = ["together", "openai", "offline"];
+
+/**
+ * Pick the question provider from the environment:
+ * - QUESTION_PROVIDER: together | openai | offline (default together when
+ *   TOGETHER_API_KEY is set, otherwise offline)
+ * - together: TOGETHER_API_KEY, optional TOGETHER_MODEL
+ * - openai: QUESTION_PROVIDER_BASE_URL, optional QUESTION_PROVIDER_API_KEY
+ *   and QUESTION_PROVIDER_MODEL
+ * - offline: optional QUESTION_PROVIDER_SEED
+ */
+export const createQuestionProvider = (
+  env: NodeJS.ProcessEnv = process.env
+): QuestionProvider => {
+  const kind =
+    env.QUESTION_PROVIDER || (env.TOGETHER_API_KEY ? "together" : "offline");
+
+  switch (kind) {
+    case "together":
+      if (!env.TOGETHER_API_KEY) {
+        throw new Error("QUESTION_PROVIDER=together needs TOGETHER_API_KEY");
+      }
+      return new TogetherProvider({
+        apiKey: env.TOGETHER_API_KEY,
+        model: env.TOGETHER_MODEL || undefined,
+      });
+    case "openai":
+      if (!env.QUESTION_PROVIDER_BASE_URL) {
+        throw new Error(
+          "QUESTION_PROVIDER=openai needs QUESTION_PROVIDER_BASE_URL"
+        );
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: env.QUESTION_PROVIDER_BASE_URL,
+        apiKey: env.QUESTION_PROVIDER_API_KEY || undefined,
+        model: env.QUESTION_PROVIDER_MODEL || "gpt-4o-mini",
+      });
+    case "offline":
+      return new OfflineQuestionProvider(env.QUESTION_PROVIDER_SEED);
+    default:
+      throw new Error(
+        `QUESTION_PROVIDER must be one of ${PROVIDERS.join(", ")}`
+      );
+  }
+};
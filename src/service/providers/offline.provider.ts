@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import { GenerateRequest, QuestionProvider, RawQuestion } from "./provider";
+
+type Rng = () => number;
+type Template = {
+  category: string;
+  build: (rng: Rng) => RawQuestion;
+};
+
+// mulberry32, seeded from a sha256 of the seed string
+const seededRng = (seed: string): Rng => {
+  let state = createHash("sha256").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const between = (rng: Rng, min: number, max: number) =>
+  min + Math.floor(rng() * (max - min + 1));
+
+const pickOne = <T>(rng: Rng, items: T[]) =>
+  items[between(rng, 0, items.length - 1)];
+
+const shuffled = <T>(rng: Rng, items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = between(rng, 0, i);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// The answer plus 3 other entries from the same list
+const choicesFrom = (rng: Rng, answer: string, pool: string[]) => [
+  answer,
+  ...shuffled(
+    rng,
+    pool.filter((p) => p !== answer)
+  ).slice(0, 3),
+];
+
+// The answer plus 3 distinct nearby numbers
+const numberChoices = (rng: Rng, answer: number, spread: number) => {
+  const choices = new Set([answer]);
+  while (choices.size < 4) {
+    const offset = between(rng, 1, spread) * (rng() < 0.5 ? -1 : 1);
+    if (answer + offset > 0) choices.add(answer + offset);
+  }
+  return [...choices].map(String);
+};
+
+const isPrime = (n: number) => {
+  if (n < 2) return false;
+  for (let i = 2; i * i <= n; i++) if (n % i === 0) return false;
+  return true;
+};
+
+const CAPITALS: [string, string][] = [
+  ["France", "Paris"],
+  ["Japan", "Tokyo"],
+  ["Kenya", "Nairobi"],
+  ["Canada", "Ottawa"],
+  ["Australia", "Canberra"],
+  ["Brazil", "Brasília"],
+  ["Egypt", "Cairo"],
+  ["Nigeria", "Abuja"],
+  ["Germany", "Berlin"],
+  ["India", "New Delhi"],
+  ["Argentina", "Buenos Aires"],
+  ["Spain", "Madrid"],
+  ["Italy", "Rome"],
+  ["Ghana", "Accra"],
+  ["Mexico", "Mexico City"],
+  ["Norway", "Oslo"],
+  ["Peru", "Lima"],
+  ["South Korea", "Seoul"],
+  ["Turkey", "Ankara"],
+  ["Vietnam", "Hanoi"],
+];
+
+const ELEMENTS: [string, string][] = [
+  ["Gold", "Au"],
+  ["Silver", "Ag"],
+  ["Iron", "Fe"],
+  ["Sodium", "Na"],
+  ["Potassium", "K"],
+  ["Lead", "Pb"],
+  ["Copper", "Cu"],
+  ["Tin", "Sn"],
+  ["Mercury", "Hg"],
+  ["Helium", "He"],
+  ["Calcium", "Ca"],
+  ["Zinc", "Zn"],
+  ["Oxygen", "O"],
+  ["Nitrogen", "N"],
+];
+
+const TEMPLATES: Template[] = [
+  {
+    category: "math",
+    build: (rng) => {
+      const a = between(rng, 12, 99);
+      const b = between(rng, 12, 99);
+      return {
+        question: `What is ${a} + ${b}?`,
+        answer: String(a + b),
+        type: "multiple-choice",
+        options: numberChoices(rng, a + b, 10),
+        category: "math",
+        difficulty: "easy",
+      };
+    },
+  },
+  {
+    category: "math",
+    build: (rng) => {
+      const a = between(rng, 6, 19);
+      const b = between(rng, 6, 19);
+      return {
+        question: `What is ${a} × ${b}?`,
+        answer: String(a * b),
+        type: "multiple-choice",
+        options: numberChoices(rng, a * b, a),
+        category: "math",
+        difficulty: "medium",
+      };
+    },
+  },
+  {
+    category: "math",
+    build: (rng) => {
+      const n = between(rng, 21, 199);
+      return {
+        question: `True or false: ${n} is a prime number.`,
+        answer: isPrime(n) ? "True" : "False",
+        type: "true-false",
+        category: "math",
+        difficulty: "medium",
+      };
+    },
+  },
+  {
+    category: "math",
+    build: (rng) => {
+      const root = between(rng, 11, 40);
+      return {
+        question: `What is the square root of ${root * root}?`,
+        answer: String(root),
+        type: "multiple-choice",
+        options: numberChoices(rng, root, 4),
+        category: "math",
+        difficulty: "hard",
+      };
+    },
+  },
+  {
+    category: "geography",
+    build: (rng) => {
+      const [country, capital] = pickOne(rng, CAPITALS);
+      return {
+        question: `What is the capital of ${country}?`,
+        answer: capital,
+        type: "multiple-choice",
+        options: choicesFrom(
+          rng,
+          capital,
+          CAPITALS.map(([, c]) => c)
+        ),
+        category: "geography",
+        difficulty: "easy",
+      };
+    },
+  },
+  {
+    category: "geography",
+    build: (rng) => {
+      const [country, capital] = pickOne(rng, CAPITALS);
+      const shown = rng() < 0.5 ? capital : pickOne(rng, CAPITALS)[1];
+      return {
+        question: `True or false: ${shown} is the capital of ${country}.`,
+        answer: shown === capital ? "True" : "False",
+        type: "true-false",
+        category: "geography",
+        difficulty: "easy",
+      };
+    },
+  },
+  {
+    category: "science",
+    build: (rng) => {
+      const [element, symbol] = pickOne(rng, ELEMENTS);
+      return {
+        question: `What is the chemical symbol for ${element}?`,
+        answer: symbol,
+        type: "multiple-choice",
+        options: choicesFrom(
+          rng,
+          symbol,
+          ELEMENTS.map(([, s]) => s)
+        ),
+        category: "science",
+        difficulty: "medium",
+      };
+    },
+  },
+  {
+    category: "science",
+    build: (rng) => {
+      const [element, symbol] = pickOne(rng, ELEMENTS);
+      return {
+        question: `Which element has the chemical symbol ${symbol}?`,
+        answer: element,
+        type: "multiple-choice",
+        options: choicesFrom(
+          rng,
+          element,
+          ELEMENTS.map(([e]) => e)
+        ),
+        category: "science",
+        difficulty: "hard",
+      };
+    },
+  },
+];
+
+/**
+ * Builds questions from fixed templates without any network access, for
+ * development, CI and running while the hosted providers are down. The
+ * nth batch for a given seed is always the same.
+ */
+export class OfflineQuestionProvider implements QuestionProvider {
+  public readonly name = "offline";
+  private batch = 0;
+
+  constructor(private readonly seed: string = "offline") {}
+
+  public async generate({
+    count,
+    categories,
+  }: GenerateRequest): Promise<RawQuestion[]> {
+    const rng = seededRng(`${this.seed}:${this.batch++}`);
+    // Templates outside the requested categories are only used when none match
+    const matching = TEMPLATES.filter((t) => categories.includes(t.category));
+    const templates = matching.length > 0 ? matching : TEMPLATES;
+
+    const questions = new Map<string, RawQuestion>();
+    // The template space is finite: stop rather than spin on repeats
+    for (let tries = 0; questions.size < count && tries < count * 20; tries++) {
+      const question = pickOne(rng, templates).build(rng);
+      if (!questions.has(question.question)) {
+        questions.set(question.question, question);
+      }
+    }
+
+    return [...questions.values()];
+  }
+}
@@ -0,0 +1,151 @@
+import axios from "axios";
+import { ProviderRateLimitError } from "../errors";
+import { GenerateRequest, QuestionProvider } from "./provider";
+
+export type OpenAICompatibleOptions = {
+  name?: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:8080/v1
+  apiKey?: string; // omitted for local servers without auth
+  model: string;
+  timeoutMs?: number;
+};
+
+const prompt = ({ count, categories }: GenerateRequest) => `
+Generate ${count} unique multiple-choice trivia questions spread across
+these categories: ${categories.join(", ")}.
+Most should be "multiple-choice" with the answer plus 3 plausible wrong
+options; some may be "true-false" with "True" or "False" as the answer.
+
+Return as a valid JSON array, each item like:
+{
+  "question": "string",
+  "answer": "string",
+  "acceptable_answers": ["other accepted spellings or short forms, e.g. a surname"],
+  "type": "multiple-choice|true-false",
+  "options": ["4 strings, one of them exactly the answer"],
+  "category": "one of the category ids above",
+  "difficulty": "easy|medium|hard"
+}
+NO explanations, only JSON array.
+`;
+
+/**
+ * Complete top-level { ... } blocks in order, skipping braces inside
+ * strings; a block cut off at the end is dropped
+ */
+const objectBlocks = (text: string) => {
+  const blocks: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{") {
+      if (depth++ === 0) start = i;
+    } else if (char === "}" && depth > 0) {
+      if (--depth === 0) blocks.push(text.slice(start, i + 1));
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Pull the question array out of a chat reply, tolerating markdown fences
+ * and replies cut off part way through. Items are not checked here.
+ */
+export const parseQuestionList = (content: string): unknown[] => {
+  // 🧹 Clean possible markdown or prefix
+  const cleaned = content
+    .replace(/```json/gi, "")
+    .replace(/```/g, "")
+    .replace(/^questions\s*=\s*/, "") // remove "questions ="
+    .trim();
+
+  try {
+    // Try direct parse first
+    const parsed = JSON.parse(cleaned);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    console.warn(
+      "⚠️ Direct JSON parse failed. Falling back to extracting objects..."
+    );
+  }
+
+  // ✅ Fallback: keep only the complete { ... } blocks that parse
+  const questions = objectBlocks(cleaned).flatMap((block) => {
+    try {
+      return [JSON.parse(block) as unknown];
+    } catch {
+      return [];
+    }
+  });
+
+  console.log(
+    `✅ Extracted ${questions.length} questions from partial AI response`
+  );
+  return questions;
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements QuestionProvider {
+  public readonly name: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.name = options.name ?? "openai";
+  }
+
+  public async generate(request: GenerateRequest): Promise<unknown[]> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+    try {
+      const response = await axios.post(
+        url,
+        {
+          model: this.options.model,
+          messages: [{ role: "user", content: prompt(request) }],
+        },
+        {
+          timeout: this.options.timeoutMs ?? 120000,
+          headers: this.options.apiKey
+            ? { Authorization: `Bearer ${this.options.apiKey}` }
+            : {},
+        }
+      );
+
+      const content =
+        (response.data as any)?.choices?.[0]?.message?.content || "[]";
+      return parseQuestionList(content);
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        throw new ProviderRateLimitError(this.name);
+      }
+      throw error;
+    }
+  }
+}
+
+export const TOGETHER_BASE_URL = "https://api.together.xyz/v1";
+export const TOGETHER_DEFAULT_MODEL = "meta-llama/Llama-3.3-70B-Instruct-Turbo";
+
+/**
+ * Together's hosted models, through its OpenAI-compatible API
+ */
+export class TogetherProvider extends OpenAICompatibleProvider {
+  constructor(options: { apiKey: string; model?: string }) {
+    super({
+      name: "together",
+      baseUrl: TOGETHER_BASE_URL,
+      apiKey: options.apiKey,
+      model: options.model ?? TOGETHER_DEFAULT_MODEL,
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * The shape generators are asked for. What they return is not trusted to
+ * match it; see ingestion.service.ts.
+ */
+export type RawQuestion = {
+  question: string;
+  answer: string;
+  acceptable_answers?: string[];
+  type?: string;
+  options?: string[];
+  category?: string;
+  difficulty?: string;
+};
+
+export type GenerateRequest = {
+  count: number;
+  categories: string[]; // canonical category ids to spread across
+};
+
+/**
+ * A source of new trivia questions
+ */
+export interface QuestionProvider {
+  readonly name: string;
+  generate(request: GenerateRequest): Promise<unknown[]>;
+}
@@ -0,0 +1,330 @@
+import { Types } from "mongoose";
+import { QuestionRepository } from "../db/game.question.db";
+import { QuestionType } from "../interfaces/interface";
+import { normalizeAnswer } from "../game/answer.matcher";
+import { sanitizeChoices } from "../game/question.options";
+import {
+  CATEGORY_IDS,
+  DEFAULT_CATEGORY,
+  resolveCategory,
+} from "../game/categories";
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export type QuestionInput = {
+  question: string;
+  answer: string;
+  acceptable_answers: string[];
+  type: QuestionType;
+  options: string[];
+  category: string;
+  difficulty: (typeof DIFFICULTIES)[number];
+  reward_amount: number;
+};
+
+export type QuestionStatus = "fresh" | "used" | "answered" | "retired";
+
+export type QuestionFilters = {
+  search?: string;
+  category?: string;
+  difficulty?: string;
+  type?: string;
+  status?: QuestionStatus;
+};
+
+export type ImportReport = {
+  received: number;
+  inserted: number;
+  dryRun: boolean;
+  rejected: { row: number; question?: unknown; errors: string[] }[];
+  duplicates: { row: number; question: string; reason: string }[];
+};
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const rewardForDifficulty = (difficulty?: string) =>
+  difficulty === "hard" ? 250 : difficulty === "medium" ? 150 : 100;
+
+// Same text modulo case, accents, punctuation and articles
+export const questionKey = (question: string) => normalizeAnswer(question);
+
+class QuestionService {
+  private readonly questionRepository = QuestionRepository;
+
+  /**
+   * Check one raw question (API body, JSON or CSV row) and fill defaults
+   */
+  public validate(raw: any): { value?: QuestionInput; errors: string[] } {
+    const errors: string[] = [];
+    if (!raw || typeof raw !== "object") {
+      return { errors: ["Row must be an object"] };
+    }
+
+    const question =
+      typeof raw.question === "string" ? raw.question.trim() : "";
+    const answer = typeof raw.answer === "string" ? raw.answer.trim() : "";
+    if (question.length < 5 || question.length > 500) {
+      errors.push("question must be 5-500 characters");
+    }
+    if (!answer || answer.length > 200) {
+      errors.push("answer must be 1-200 characters");
+    }
+
+    const acceptable = raw.acceptable_answers ?? [];
+    if (
+      !Array.isArray(acceptable) ||
+      acceptable.some((a: unknown) => typeof a !== "string")
+    ) {
+      errors.push("acceptable_answers must be a list of strings");
+    }
+
+    // Display names and aliases are stored as the canonical id
+    const category = resolveCategory(raw.category ?? DEFAULT_CATEGORY);
+    if (!category) {
+      errors.push(`category must be one of ${CATEGORY_IDS.join(", ")}`);
+    }
+
+    const difficulty = raw.difficulty ?? "medium";
+    if (!DIFFICULTIES.includes(difficulty)) {
+      errors.push(`difficulty must be one of ${DIFFICULTIES.join(", ")}`);
+    }
+
+    const reward = raw.reward_amount ?? rewardForDifficulty(difficulty);
+    if (!Number.isInteger(reward) || reward <= 0) {
+      errors.push("reward_amount must be a positive whole number");
+    }
+
+    // Options without a type mean multiple choice
+    const hasOptions = Array.isArray(raw.options) && raw.options.length > 0;
+    const type =
+      raw.type ?? (hasOptions ? QuestionType.MULTIPLE_CHOICE : undefined);
+    if (type !== undefined && !Object.values(QuestionType).includes(type)) {
+      errors.push(
+        `type must be one of ${Object.values(QuestionType).join(", ")}`
+      );
+    }
+
+    const choices = answer
+      ? sanitizeChoices(answer, type, raw.options)
+      : { type: QuestionType.FREE_TEXT, options: [], answer };
+    if (type && type !== QuestionType.FREE_TEXT && choices.type !== type) {
+      errors.push(
+        type === QuestionType.TRUE_FALSE
+          ? "true-false answers must be True or False"
+          : "options must be 2-6 unique entries including the answer"
+      );
+    }
+
+    if (errors.length > 0 || !category) return { errors };
+
+    return {
+      errors,
+      value: {
+        question,
+        answer: choices.answer,
+        acceptable_answers: (acceptable as string[])
+          .map((a) => a.trim())
+          .filter(Boolean),
+        type: type === QuestionType.FREE_TEXT ? type : choices.type,
+        options: type === QuestionType.FREE_TEXT ? [] : choices.options,
+        category: category.id,
+        difficulty,
+        reward_amount: reward,
+      },
+    };
+  }
+
+  public async list(
+    filters: QuestionFilters & { page: number; limit: number }
+  ) {
+    const query = this.buildQuery(filters);
+    const [items, total] = await Promise.all([
+      this.questionRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      this.questionRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+
+  public async get(id: Types.ObjectId) {
+    const question = await this.questionRepository.findById(id);
+    if (!question) throw new Error("Question not found");
+    return question;
+  }
+
+  public async create(raw: unknown) {
+    const { value, errors } = this.validate(raw);
+    if (!value) throw new Error(errors.join("; "));
+    await this.assertUnique(value.question);
+
+    return this.questionRepository.create(value);
+  }
+
+  /**
+   * Apply a partial edit; the merged question must still be valid
+   */
+  public async update(id: Types.ObjectId, patch: Record<string, unknown>) {
+    const current = await this.get(id);
+    const { value, errors } = this.validate({
+      question: current.question,
+      answer: current.answer,
+      acceptable_answers: current.acceptable_answers,
+      type: current.type,
+      options: current.options,
+      category: current.category,
+      difficulty: current.difficulty,
+      reward_amount: current.reward_amount,
+      ...patch,
+    });
+    if (!value) throw new Error(errors.join("; "));
+    if (questionKey(value.question) !== questionKey(current.question)) {
+      await this.assertUnique(value.question, id);
+    }
+
+    return this.questionRepository.findByIdAndUpdate(
+      id,
+      { $set: value },
+      { new: true }
+    );
+  }
+
+  /**
+   * Take a question out of rotation without losing its round history
+   */
+  public async retire(id: Types.ObjectId) {
+    const question = await this.questionRepository.findByIdAndUpdate(
+      id,
+      { $set: { retired: true, retired_at: new Date() } },
+      { new: true }
+    );
+    if (!question) throw new Error("Question not found");
+    return question;
+  }
+
+  public async restore(id: Types.ObjectId) {
+    const question = await this.questionRepository.findByIdAndUpdate(
+      id,
+      { $set: { retired: false, retired_at: null } },
+      { new: true }
+    );
+    if (!question) throw new Error("Question not found");
+    return question;
+  }
+
+  /**
+   * Validate and insert a batch. Invalid rows and duplicates (of the bank
+   * or of an earlier row) are reported, never inserted. Rows are numbered
+   * from 1 in the order received.
+   */
+  public async importQuestions(
+    rows: unknown[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      received: rows.length,
+      inserted: 0,
+      dryRun: !!options.dryRun,
+      rejected: [],
+      duplicates: [],
+    };
+
+    const bank = new Set(
+      (await this.questionRepository.find({}, { question: 1 }).lean()).map(
+        (q) => questionKey(q.question)
+      )
+    );
+    const batch = new Set<string>();
+    const accepted: QuestionInput[] = [];
+
+    rows.forEach((raw, i) => {
+      const row = i + 1;
+      const { value, errors } = this.validate(raw);
+      if (!value) {
+        const question =
+          typeof raw === "object" && raw !== null && "question" in raw
+            ? raw.question
+            : undefined;
+        report.rejected.push({ row, question, errors });
+        return;
+      }
+
+      const key = questionKey(value.question);
+      if (bank.has(key) || batch.has(key)) {
+        report.duplicates.push({
+          row,
+          question: value.question,
+          reason: bank.has(key) ? "already in the bank" : "repeated in file",
+        });
+        return;
+      }
+      batch.add(key);
+      accepted.push(value);
+    });
+
+    if (!options.dryRun && accepted.length > 0) {
+      await this.questionRepository.insertMany(accepted);
+    }
+    report.inserted = accepted.length;
+
+    return report;
+  }
+
+  public async exportQuestions(filters: QuestionFilters) {
+    return this.questionRepository
+      .find(this.buildQuery(filters))
+      .sort({ createdAt: 1 })
+      .lean();
+  }
+
+  private async assertUnique(question: string, exceptId?: Types.ObjectId) {
+    const key = questionKey(question);
+    const bank = await this.questionRepository
+      .find(exceptId ? { _id: { $ne: exceptId } } : {}, { question: 1 })
+      .lean();
+    if (bank.some((q) => questionKey(q.question) === key)) {
+      throw new Error("A question with the same text already exists");
+    }
+  }
+
+  private buildQuery(filters: QuestionFilters) {
+    const query: Record<string, any> = {};
+    if (filters.search) {
+      const pattern = new RegExp(escapeRegex(filters.search), "i");
+      query.$or = [{ question: pattern }, { answer: pattern }];
+    }
+    if (filters.category) {
+      query.category =
+        resolveCategory(filters.category)?.id ??
+        new RegExp(`^${escapeRegex(filters.category)}$`, "i");
+    }
+    if (filters.difficulty) query.difficulty = filters.difficulty;
+    if (filters.type) query.type = filters.type;
+
+    switch (filters.status) {
+      case "fresh":
+        query.used = false;
+        query.retired = { $ne: true };
+        break;
+      case "used":
+        query.used = true;
+        query.answered_by = null;
+        query.retired = { $ne: true };
+        break;
+      case "answered":
+        query.answered_by = { $ne: null };
+        query.retired = { $ne: true };
+        break;
+      case "retired":
+        query.retired = true;
+        break;
+    }
+    return query;
+  }
+}
+
+export const questionService = new QuestionService();
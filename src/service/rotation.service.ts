@@ -0,0 +1,275 @@
+import { Types } from "mongoose";
+import { QuestionRepository } from "../db/game.question.db";
+import { TriviaRoundRepository } from "../db/game.trivia.round.db";
+
+export type RotationPolicy = {
+  cooldownDays: number; // answered questions come back after this long
+  noRepeatRounds: number; // skip questions from each present player's last N rounds
+  candidatePool: number; // eligible questions sampled before weighting
+};
+
+export const DEFAULT_ROTATION_POLICY: RotationPolicy = {
+  cooldownDays: 30,
+  noRepeatRounds: 50,
+  candidatePool: 25,
+};
+
+// A question picked this recently may still be live in another room
+const IN_PLAY_GUARD_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PickContext = {
+  room?: string;
+  playerIds?: string[];
+  policy?: Partial<RotationPolicy>;
+};
+
+/**
+ * Worked out once per question selection and shared by every bucket
+ * it tries, see prepare
+ */
+export type Selection = {
+  policy: RotationPolicy;
+  players: Types.ObjectId[];
+  seen: Types.ObjectId[]; // recently asked in the room or to its players
+};
+
+const BUCKETS = ["total", "fresh", "eligible", "cooling", "retired"] as const;
+type Bucket = (typeof BUCKETS)[number];
+
+/**
+ * Decides which questions may be asked again and picks among them,
+ * favouring the ones the players in the room have seen least
+ */
+class RotationService {
+  private readonly questionRepository = QuestionRepository;
+  private readonly roundRepository = TriviaRoundRepository;
+
+  public policy(overrides: Partial<RotationPolicy> = {}): RotationPolicy {
+    return { ...DEFAULT_ROTATION_POLICY, ...overrides };
+  }
+
+  /**
+   * Never asked, asked but never won, or won long enough ago
+   */
+  public eligibleFilter(policy: RotationPolicy, now: number = Date.now()) {
+    const cutoff = new Date(now - policy.cooldownDays * DAY_MS);
+    return {
+      retired: { $ne: true },
+      last_used_at: { $not: { $gt: new Date(now - IN_PLAY_GUARD_MS) } },
+      $or: [
+        { used: false },
+        { answered_by: null },
+        { answered_at: { $lte: cutoff } },
+        // Answered before answered_at was recorded
+        { answered_at: null, updatedAt: { $lte: cutoff } },
+      ],
+    };
+  }
+
+  /**
+   * Resolve the policy and look up what the room and its players saw
+   * recently, once for all the buckets a selection may try
+   */
+  public async prepare(ctx: PickContext): Promise<Selection> {
+    const policy = this.policy(ctx.policy);
+    const players = this.objectIds(ctx.playerIds);
+    const seen = await this.recentlySeen(
+      ctx.room,
+      players,
+      policy.noRepeatRounds
+    );
+    return { policy, players, seen };
+  }
+
+  /**
+   * Reserve one question matching extraMatch, or null if none is eligible
+   */
+  public async pick(extraMatch: Record<string, unknown>, selection: Selection) {
+    const { policy, players, seen } = selection;
+    const match = { $and: [this.eligibleFilter(policy), extraMatch] };
+
+    let candidates = await this.sample(
+      { ...match, _id: { $nin: seen } },
+      policy.candidatePool
+    );
+    // Everything left was seen recently: least-bad beats nothing
+    if (candidates.length === 0 && seen.length > 0) {
+      candidates = await this.sample(match, policy.candidatePool);
+    }
+    if (candidates.length === 0) return null;
+
+    const exposure = await this.exposureCounts(
+      candidates.map((c) => c._id),
+      players
+    );
+
+    // Weighted shuffle (Efraimidis–Spirakis): less-seen questions first
+    const ordered = candidates
+      .map((c) => {
+        const weight =
+          1 /
+          (1 + 2 * (exposure.get(c._id.toString()) ?? 0) + (c.times_used ?? 0));
+        return { c, key: Math.random() ** (1 / weight) };
+      })
+      .sort((a, b) => b.key - a.key)
+      .map(({ c }) => c);
+
+    for (const candidate of ordered) {
+      // Another room may have reserved it since it was sampled
+      const reserved = await this.questionRepository.findOneAndUpdate(
+        { _id: candidate._id, last_used_at: candidate.last_used_at ?? null },
+        {
+          $set: { used: true, last_used_at: new Date() },
+          $inc: { times_used: 1 },
+        },
+        { new: true }
+      );
+      if (reserved) return reserved;
+    }
+    return null;
+  }
+
+  /**
+   * Question ids asked in the room's last N rounds or in any present
+   * player's last N rounds. One indexed, limited query each, so the
+   * cost doesn't grow with a player's history.
+   */
+  public async recentlySeen(
+    room: string | undefined,
+    players: Types.ObjectId[],
+    rounds: number
+  ) {
+    if (rounds <= 0) return [];
+
+    const lastRounds = (filter: Record<string, unknown>) =>
+      this.roundRepository
+        .find({ ...filter, question_id: { $ne: null } }, { question_id: 1 })
+        .sort({ createdAt: -1 })
+        .limit(rounds)
+        .lean();
+
+    const results = await Promise.all([
+      ...(room ? [lastRounds({ room })] : []),
+      ...players.map((p) => lastRounds({ "participants.user_id": p })),
+    ]);
+
+    const ids = new Map<string, Types.ObjectId>();
+    for (const r of results.flat()) {
+      if (r.question_id) ids.set(r.question_id.toString(), r.question_id);
+    }
+    return [...ids.values()];
+  }
+
+  /**
+   * Per category: how much of the bank can still be asked
+   */
+  public async bankHealth(overrides: Partial<RotationPolicy> = {}) {
+    const policy = this.policy(overrides);
+    const now = Date.now();
+    const cutoff = new Date(now - policy.cooldownDays * DAY_MS);
+    const count = [{ $group: { _id: "$category", count: { $sum: 1 } } }];
+
+    const [facets] = await this.questionRepository.aggregate([
+      {
+        $facet: {
+          total: count,
+          fresh: [
+            { $match: { used: false, retired: { $ne: true } } },
+            ...count,
+          ],
+          eligible: [{ $match: this.eligibleFilter(policy, now) }, ...count],
+          cooling: [
+            {
+              $match: {
+                retired: { $ne: true },
+                answered_by: { $ne: null },
+                $or: [
+                  { answered_at: { $gt: cutoff } },
+                  { answered_at: null, updatedAt: { $gt: cutoff } },
+                ],
+              },
+            },
+            ...count,
+          ],
+          retired: [{ $match: { retired: true } }, ...count],
+        },
+      },
+    ]);
+
+    const byCategory = new Map<string, Record<Bucket, number>>();
+    for (const bucket of BUCKETS) {
+      for (const { _id, count } of facets[bucket]) {
+        const category = _id ?? "uncategorised";
+        if (!byCategory.has(category)) {
+          byCategory.set(category, {
+            total: 0,
+            fresh: 0,
+            eligible: 0,
+            cooling: 0,
+            retired: 0,
+          });
+        }
+        byCategory.get(category)![bucket] = count;
+      }
+    }
+
+    const categories = [...byCategory.entries()]
+      .map(([category, counts]) => ({ category, ...counts }))
+      .sort((a, b) => a.category.localeCompare(b.category));
+    const totals = Object.fromEntries(
+      BUCKETS.map((b) => [b, categories.reduce((sum, c) => sum + c[b], 0)])
+    );
+
+    return { policy, categories, totals };
+  }
+
+  private sample(match: Record<string, unknown>, size: number) {
+    return this.questionRepository.aggregate<{
+      _id: Types.ObjectId;
+      times_used?: number;
+      last_used_at?: Date | null;
+    }>([
+      { $match: match },
+      { $sample: { size } },
+      { $project: { _id: 1, times_used: 1, last_used_at: 1 } },
+    ]);
+  }
+
+  /**
+   * How many of the present players have already played each question
+   */
+  private async exposureCounts(
+    questionIds: Types.ObjectId[],
+    players: Types.ObjectId[]
+  ) {
+    const counts = new Map<string, number>();
+    if (players.length === 0) return counts;
+
+    const rows = await this.roundRepository.aggregate<{
+      _id: Types.ObjectId;
+      count: number;
+    }>([
+      {
+        $match: {
+          question_id: { $in: questionIds },
+          "participants.user_id": { $in: players },
+        },
+      },
+      { $unwind: "$participants" },
+      { $match: { "participants.user_id": { $in: players } } },
+      { $group: { _id: "$question_id", count: { $sum: 1 } } },
+    ]);
+    for (const r of rows) counts.set(r._id.toString(), r.count);
+    return counts;
+  }
+
+  // Demo users and guests don't have ObjectId ids
+  private objectIds(ids: string[] = []) {
+    return ids
+      .filter((id) => Types.ObjectId.isValid(id))
+      .map((id) => new Types.ObjectId(id));
+  }
+}
+
+export const rotationService = new RotationService();
@@ -0,0 +1,151 @@
+import { Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { Transaction } from "../db/transaction.db";
+import { WithdrawalRepository } from "../db/game.withdrawal.db";
+import { LedgerReason } from "../interfaces/interface";
+import { describeDb, useTestDb } from "../test/db";
+import { BALANCE_PER_TOKEN, gameService } from "./service";
+
+const PARALLEL = 20;
+
+const createUser = async (balance: number, tokens = 0) => {
+  const user = await GameUserRepository.create({
+    username: `player-${new Types.ObjectId()}`,
+    platform: "tiktok",
+    balance,
+    tokens,
+  });
+  return user._id as Types.ObjectId;
+};
+
+const reload = async (userId: Types.ObjectId) =>
+  (await GameUserRepository.findById(userId).lean())!;
+
+const journals = (reason: LedgerReason) =>
+  Transaction.countDocuments({ reason });
+
+// Run every call at once, keep the ones that went through
+const hammer = async <T>(calls: (() => Promise<T>)[]) => {
+  const results = await Promise.allSettled(calls.map((call) => call()));
+  return results.filter(
+    (r): r is PromiseFulfilledResult<Awaited<T>> => r.status === "fulfilled"
+  );
+};
+
+describeDb("balance mutations under concurrency", () => {
+  useTestDb();
+
+  it("never overspends when purchasing tokens in parallel", async () => {
+    const affordable = 5;
+    const userId = await createUser(affordable * BALANCE_PER_TOKEN);
+
+    const ok = await hammer(
+      Array.from(
+        { length: PARALLEL },
+        () => () => gameService.purchaseTokensWithBalance(userId, 1)
+      )
+    );
+
+    const user = await reload(userId);
+    expect(ok).toHaveLength(affordable);
+    expect(user.balance).toBe(0);
+    expect(user.tokens).toBe(affordable);
+    expect(await journals(LedgerReason.BALANCE_CONVERSION)).toBe(affordable);
+  });
+
+  it("never holds more than the balance for parallel withdrawals", async () => {
+    const userId = await createUser(1000);
+
+    const ok = await hammer(
+      Array.from(
+        { length: PARALLEL },
+        () => () => gameService.requestWithdrawal(userId, 300, "bank")
+      )
+    );
+
+    const user = await reload(userId);
+    expect(ok).toHaveLength(3);
+    expect(user.balance).toBe(100);
+    expect(await WithdrawalRepository.countDocuments({ userId })).toBe(3);
+    expect(await journals(LedgerReason.WITHDRAWAL_HOLD)).toBe(3);
+  });
+
+  it("refunds a rejected withdrawal only once", async () => {
+    const userId = await createUser(500);
+    const adminId = await createUser(0);
+    const withdrawal = await gameService.requestWithdrawal(userId, 500, "bank");
+
+    const ok = await hammer(
+      Array.from(
+        { length: PARALLEL },
+        () => () =>
+          gameService.updateWithdrawalStatus(
+            withdrawal._id as Types.ObjectId,
+            "rejected",
+            adminId,
+            "Duplicate request"
+          )
+      )
+    );
+
+    const user = await reload(userId);
+    expect(ok).toHaveLength(1);
+    expect(user.balance).toBe(500);
+    expect(await journals(LedgerReason.WITHDRAWAL_REFUND)).toBe(1);
+  });
+
+  it("posts an idempotent refund only once", async () => {
+    const userId = await createUser(0);
+
+    await hammer(
+      Array.from(
+        { length: PARALLEL },
+        () => () => gameService.refundTokens(userId, 2, "round-1:player")
+      )
+    );
+
+    const user = await reload(userId);
+    expect(user.tokens).toBe(2);
+    expect(await journals(LedgerReason.TRIVIA_REFUND)).toBe(1);
+  });
+
+  it("keeps the balance consistent across mixed parallel calls", async () => {
+    const userId = await createUser(10 * BALANCE_PER_TOKEN);
+    const adminId = await createUser(0);
+    const pending = await gameService.requestWithdrawal(
+      userId,
+      2 * BALANCE_PER_TOKEN,
+      "bank"
+    );
+
+    const calls: (() => Promise<unknown>)[] = Array.from(
+      { length: PARALLEL },
+      (_, i) =>
+        i % 2
+          ? () => gameService.purchaseTokensWithBalance(userId, 1)
+          : () =>
+              gameService.requestWithdrawal(userId, BALANCE_PER_TOKEN, "bank")
+    );
+    calls.push(() =>
+      gameService.updateWithdrawalStatus(
+        pending._id as Types.ObjectId,
+        "rejected",
+        adminId,
+        "Wrong account"
+      )
+    );
+    await hammer(calls);
+
+    // Whatever order they ran in, every unit is accounted for once
+    const user = await reload(userId);
+    const held = await WithdrawalRepository.aggregate([
+      { $match: { userId, status: "pending" } },
+      { $group: { _id: null, amount: { $sum: "$amount" } } },
+    ]);
+    expect(user.balance).toBeGreaterThanOrEqual(0);
+    expect(
+      user.balance + user.tokens * BALANCE_PER_TOKEN + (held[0]?.amount ?? 0)
+    ).toBe(10 * BALANCE_PER_TOKEN);
+    expect(await journals(LedgerReason.WITHDRAWAL_REFUND)).toBe(1);
+  });
+});
@@ -1,20 +1,28 @@
-import { Types } from "mongoose";
+import { ClientSession, Types } from "mongoose";
 import { GameUserRepository } from "../db/game..user.db";
-import jwt from "jsonwebtoken";
 import { QuestionRepository } from "../db/game.question.db";
 import { WithdrawalRepository } from "../db/game.withdrawal.db";
+import { WithdrawalAuditRepository } from "../db/game.withdrawal.audit.db";
 import bcrypt from "bcryptjs";
-import axios from "axios";
+import { LedgerAccount, ledgerService } from "./ledger.service";
+import { AlreadyPostedError, ConflictError } from "./errors";
+import { authService } from "./auth.service";
+import { PickContext, rotationService } from "./rotation.service";
+import { Difficulty, difficultyFallback } from "../game/difficulty";
+import { resolveCategory } from "../game/categories";
+import { LedgerAsset, LedgerReason } from "../interfaces/interface";
+import { generationService } from "./generation.service";
+
+export const BALANCE_PER_TOKEN = 100; // 1 token = 100 balance units
 
 class GameService {
   private readonly gameUserRepository = GameUserRepository;
   private readonly questionRepository = QuestionRepository;
   private readonly withdrawalRepository = WithdrawalRepository;
-  private MAX_RETRIES = 5;
-  private RETRY_DELAY = 2000;
-  private TOGETHER_API_URL = "https://api.together.xyz/v1/chat/completions";
-  private TOGETHER_API_KEY =
-    "f398a150ced62dcb5cea881ecac0d9315bbdb6e9d431b65fdae83766becbd9c1";
+  private readonly withdrawalAuditRepository = WithdrawalAuditRepository;
+  private readonly ledger = ledgerService;
+  private readonly rotation = rotationService;
+  private readonly generation = generationService;
 
   /**
    * Join or login existing user
@@ -31,7 +39,9 @@ class GameService {
     passkey: string,
     referralCode?: string
   ) {
-    let user = await this.gameUserRepository.findOne({ username });
+    let user = await this.gameUserRepository
+      .findOne({ username })
+      .select("+passkey");
 
     if (user) {
       if (!user.passkey) {
@@ -72,13 +82,12 @@ class GameService {
       await user.save();
     }
 
-    const token = jwt.sign(
-      { userId: user._id, username: user.username },
-      process.env.JWT_SECRET || "supersecret",
-      { expiresIn: "7d" }
-    );
+    const { token, refreshToken } = authService.issueTokens(user);
+
+    // The hash was loaded to check it, it doesn't go back to the client
+    const { passkey: _passkey, ...profile } = user.toObject();
 
-    return { user, token };
+    return { user: profile, token, refreshToken };
   }
 
   public async getAllUsers() {
@@ -101,36 +110,77 @@ class GameService {
    * Add tokens to a user's balance (buy tokens)
    */
   public async buyToken(user_id: Types.ObjectId, no_of_token: number) {
-    const user = await this.gameUserRepository.findById(user_id);
-    if (!user) throw new Error("User not found");
-
-    // Add tokens to buyer
-    user.tokens += no_of_token;
-    await user.save();
-
-    // ✅ Referral reward
-    if (user.referred_by) {
-      const referrer = await this.gameUserRepository.findById(user.referred_by);
-      if (referrer) {
-        referrer.tokens += 1; // bonus token for referrer
-        await referrer.save();
-        console.log(
-          `🎉 Referral reward: ${referrer.username} earned +1 token (from ${user.username}'s purchase)`
+    const purchaseId = new Types.ObjectId().toString();
+    return this.ledger.runInTransaction(async (session) => {
+      // Add tokens to buyer
+      const user = await this.ledger.postUserTransfer(
+        {
+          userId: new Types.ObjectId(user_id),
+          reason: LedgerReason.TOKEN_PURCHASE,
+          legs: [
+            {
+              asset: LedgerAsset.TOKEN,
+              amount: no_of_token,
+              counterAccount: LedgerAccount.SALES,
+            },
+          ],
+        },
+        session
+      );
+      if (!user) throw new Error("User not found");
+
+      // ✅ Referral reward
+      if (user.referred_by) {
+        const referrer = await this.ledger.postUserTransfer(
+          {
+            userId: user.referred_by,
+            reason: LedgerReason.REFERRAL_BONUS,
+            referenceId: `${user._id}:${purchaseId}`,
+            legs: [
+              {
+                asset: LedgerAsset.TOKEN,
+                amount: 1, // bonus token for referrer
+                counterAccount: LedgerAccount.REFERRALS,
+              },
+            ],
+          },
+          session
         );
+        if (referrer) {
+          console.log(
+            `🎉 Referral reward: ${referrer.username} earned +1 token (from ${user.username}'s purchase)`
+          );
+        }
       }
-    }
 
-    return user;
+      return user;
+    });
   }
 
   /**
    * Deduct tokens when a user spends them
    */
-  public async useToken(userId: Types.ObjectId, no_of_token: number) {
-    return this.gameUserRepository.findOneAndUpdate(
-      { _id: userId, tokens: { $gte: no_of_token } }, // only if user has enough
-      { $inc: { tokens: -no_of_token } },
-      { new: true } // return updated user
+  public async useToken(
+    userId: Types.ObjectId,
+    no_of_token: number,
+    referenceId?: string,
+    session?: ClientSession
+  ) {
+    // only succeeds if user has enough, returns updated user
+    return this.ledger.postUserTransfer(
+      {
+        userId,
+        reason: LedgerReason.TOKEN_STAKE,
+        referenceId,
+        legs: [
+          {
+            asset: LedgerAsset.TOKEN,
+            amount: -no_of_token,
+            counterAccount: LedgerAccount.HOUSE,
+          },
+        ],
+      },
+      session
     );
   }
 
@@ -149,63 +199,135 @@ class GameService {
     };
   }
 
-  public async getAndUpdateQuestion() {
-    // Step 1: Try to get a random unanswered + unused question
-    let question = await this.questionRepository.aggregate([
-      {
-        $match: {
-          $or: [
-            { used: false }, // brand new question
-            { answered_by: null }, // used but not answered yet
-          ],
-        },
-      },
-      { $sample: { size: 1 } }, // pick random
+  /**
+   * Reserve the next question for a room under the rotation policy (see
+   * rotation.service.ts). Buckets are tried most specific first: the
+   * room's categories at the target difficulty, then the nearest other
+   * difficulties, then any difficulty; then the same over every
+   * category. Returns null when all are empty; either way a top-up job
+   * is queued if the bank is running low (see generation.service.ts).
+   */
+  public async getAndUpdateQuestion(
+    options: {
+      categories?: string[];
+      difficulty?: Difficulty | null;
+    } & PickContext = {}
+  ) {
+    const { categories, difficulty, ...ctx } = options;
+    // Themed rooms only draw from their categories; names and aliases
+    // saved before the category registry still resolve
+    const categoryIds = (categories ?? []).flatMap(
+      (c) => resolveCategory(c)?.id ?? []
+    );
+    const themed = categoryIds.length
+      ? { category: { $in: categoryIds } }
+      : null;
+
+    const levels = difficulty ? difficultyFallback(difficulty) : [];
+    const buckets: Record<string, unknown>[] = (
+      themed ? [themed, {}] : [{}]
+    ).flatMap((scope) => [
+      ...levels.map((level) => ({ ...scope, difficulty: level })),
+      scope,
     ]);
 
-    // Step 2: If no question found, trigger AI to generate more
-    if (!question || question.length === 0) {
-      console.warn("⚠️ No questions left. Generating new ones...");
-      const newQuestions = await this.generateQuestionsFromAI(50);
-
-      if (newQuestions.length === 0) {
-        console.error("❌ Failed to generate new questions.");
-        return null;
+    const pickFromBuckets = async () => {
+      const selection = await this.rotation.prepare(ctx);
+      for (const [i, bucket] of buckets.entries()) {
+        const question = await this.rotation.pick(bucket, selection);
+        if (!question) continue;
+        if (i > 0) {
+          console.warn(
+            `⚠️ Preferred question bucket empty, using ${
+              bucket.difficulty ?? "any difficulty"
+            } from ${bucket.category ? "room categories" : "any category"}.`
+          );
+        }
+        return question;
       }
+      return null;
+    };
 
-      // Retry fetch with new batch
-      question = await this.questionRepository.aggregate([
-        {
-          $match: {
-            $or: [{ used: false }, { answered_by: null }],
-          },
-        },
-        { $sample: { size: 1 } },
-      ]);
+    const question = await pickFromBuckets();
+    // Generation runs in the background; an empty bank skips the round
+    if (!question) {
+      console.warn("⚠️ No questions left. Queued generation of new ones.");
+    }
+    this.generation.requestTopUp(!question);
 
-      if (!question || question.length === 0) {
-        console.error("❌ Even after generation, no questions available.");
-        return null;
-      }
+    return question;
+  }
+
+  public async addBalance(
+    userId: Types.ObjectId,
+    amount: number,
+    reason: LedgerReason = LedgerReason.TRIVIA_REWARD,
+    referenceId?: string,
+    session?: ClientSession
+  ) {
+    // Nothing to record for a zero reward, just return the user as-is
+    if (amount === 0) {
+      return this.gameUserRepository.findById(userId).session(session ?? null);
     }
 
-    // Step 3: Mark it as "used" immediately (reserve it)
-    const picked = await this.questionRepository.findByIdAndUpdate(
-      question[0]._id,
-      { $set: { used: true } },
-      { new: true }
+    return this.ledger.postUserTransfer(
+      {
+        userId,
+        reason,
+        referenceId,
+        legs: [
+          {
+            asset: LedgerAsset.BALANCE,
+            amount,
+            counterAccount: LedgerAccount.HOUSE,
+          },
+        ],
+      },
+      session
     );
+  }
+  /**
+   * Give back entry tokens for a round that never finished. The reference
+   * id makes it safe to call again after another crash.
+   */
+  public async refundTokens(
+    userId: Types.ObjectId,
+    no_of_token: number,
+    referenceId: string
+  ) {
+    try {
+      return await this.ledger.postUserTransfer({
+        userId,
+        reason: LedgerReason.TRIVIA_REFUND,
+        referenceId,
+        legs: [
+          {
+            asset: LedgerAsset.TOKEN,
+            amount: no_of_token,
+            counterAccount: LedgerAccount.HOUSE,
+          },
+        ],
+      });
+    } catch (error) {
+      if (error instanceof AlreadyPostedError) return null;
+      throw error;
+    }
+  }
 
-    return picked;
+  public async getQuestionById(questionId: Types.ObjectId) {
+    return this.questionRepository.findById(questionId);
   }
 
-  public async addBalance(userId: Types.ObjectId, amount: number) {
-    return this.gameUserRepository.findOneAndUpdate(
-      { _id: userId },
-      { $inc: { balance: amount } },
-      { new: true } // return updated user
+  /**
+   * Put an unanswered question back into the pool
+   */
+  public async releaseQuestion(questionId: Types.ObjectId) {
+    return this.questionRepository.updateOne(
+      { _id: questionId, answered_by: null },
+      { $set: { used: false } }
     );
   }
+
   // question.service.ts
   public async markAnswered(
     questionId: Types.ObjectId,
@@ -213,7 +335,7 @@ class GameService {
   ) {
     return this.questionRepository.findByIdAndUpdate(
       questionId,
-      { $set: { answered_by: userId } },
+      { $set: { answered_by: userId, answered_at: new Date() } },
       { new: true }
     );
   }
@@ -223,43 +345,205 @@ class GameService {
     amount: number,
     method: string
   ) {
-    const user = await this.gameUserRepository.findById(userId);
+    if (!(amount > 0)) throw new Error("Withdrawal amount must be positive");
 
-    if (!user) throw new Error("User not found");
-    if (user.balance < amount) throw new Error("Insufficient balance");
+    return this.ledger.runInTransaction(async (session) => {
+      const user = await this.gameUserRepository
+        .findById(userId)
+        .session(session);
 
-    // Deduct balance
-    user.balance -= amount;
-    await user.save();
+      if (!user) throw new Error("User not found");
+      if (user.balance < amount) throw new Error("Insufficient balance");
+
+      const withdrawalId = new Types.ObjectId();
+
+      // Deduct balance (hold until an admin decides). The conditional $inc
+      // only fails here if a concurrent request spent the balance first.
+      const held = await this.ledger.postUserTransfer(
+        {
+          userId,
+          reason: LedgerReason.WITHDRAWAL_HOLD,
+          referenceId: withdrawalId.toString(),
+          legs: [
+            {
+              asset: LedgerAsset.BALANCE,
+              amount: -amount,
+              counterAccount: LedgerAccount.WITHDRAWALS_PENDING,
+            },
+          ],
+        },
+        session
+      );
+      if (!held) {
+        throw new ConflictError("Balance changed while processing withdrawal");
+      }
 
-    // Create withdrawal record
-    return this.withdrawalRepository.create({
-      userId,
-      amount,
-      method,
-      status: "pending",
+      // Create withdrawal record
+      const [withdrawal] = await this.withdrawalRepository.create(
+        [
+          {
+            _id: withdrawalId,
+            userId,
+            amount,
+            method,
+            status: "pending",
+          },
+        ],
+        { session }
+      );
+      return withdrawal;
     });
   }
 
   // 📌 Update withdrawal status (admin)
   public async updateWithdrawalStatus(
     withdrawalId: Types.ObjectId,
-    status: "approved" | "rejected"
+    status: "approved" | "rejected",
+    actorId: Types.ObjectId,
+    reason?: string
   ) {
-    const withdrawal = await this.withdrawalRepository.findById(withdrawalId);
-    if (!withdrawal) throw new Error("Withdrawal not found");
+    if (status === "rejected" && !reason?.trim()) {
+      throw new Error("A reason is required to reject a withdrawal");
+    }
 
-    withdrawal.status = status;
-    await withdrawal.save();
+    return this.ledger.runInTransaction(async (session) => {
+      // Only a pending withdrawal can be decided, and only once
+      const withdrawal = await this.withdrawalRepository.findOneAndUpdate(
+        { _id: withdrawalId, status: "pending" },
+        {
+          $set: {
+            status,
+            reviewed_by: actorId,
+            reviewed_at: new Date(),
+            rejection_reason: status === "rejected" ? reason!.trim() : null,
+          },
+        },
+        { new: true, session }
+      );
+      if (!withdrawal) {
+        const exists = await this.withdrawalRepository
+          .exists({ _id: withdrawalId })
+          .session(session);
+        if (!exists) throw new Error("Withdrawal not found");
+        throw new ConflictError("Withdrawal has already been processed");
+      }
 
-    // Refund user if rejected
-    if (status === "rejected") {
-      await this.gameUserRepository.findByIdAndUpdate(withdrawal.userId, {
-        $inc: { balance: withdrawal.amount },
-      });
+      await this.withdrawalAuditRepository.create(
+        [
+          {
+            withdrawalId: withdrawal._id,
+            actorId,
+            previous_status: "pending",
+            new_status: status,
+            reason: reason?.trim() || null,
+          },
+        ],
+        { session }
+      );
+
+      // Refund user if rejected, otherwise the held amount leaves the platform
+      if (status === "rejected") {
+        await this.ledger.postUserTransfer(
+          {
+            userId: withdrawal.userId,
+            reason: LedgerReason.WITHDRAWAL_REFUND,
+            referenceId: withdrawal._id!.toString(),
+            legs: [
+              {
+                asset: LedgerAsset.BALANCE,
+                amount: withdrawal.amount,
+                counterAccount: LedgerAccount.WITHDRAWALS_PENDING,
+              },
+            ],
+          },
+          session
+        );
+      } else {
+        await this.ledger.record(
+          LedgerReason.WITHDRAWAL_PAYOUT,
+          [
+            {
+              account: LedgerAccount.WITHDRAWALS_PENDING,
+              user_id: null,
+              asset: LedgerAsset.BALANCE,
+              amount: -withdrawal.amount,
+            },
+            {
+              account: LedgerAccount.PAYOUTS,
+              user_id: null,
+              asset: LedgerAsset.BALANCE,
+              amount: withdrawal.amount,
+            },
+          ],
+          withdrawal._id!.toString(),
+          { userId: withdrawal.userId.toString() },
+          session
+        );
+      }
+
+      return withdrawal;
+    });
+  }
+
+  /**
+   * Apply the same decision to many withdrawals. Each one is its own
+   * transaction so a single failure doesn't block the rest.
+   */
+  public async bulkUpdateWithdrawalStatus(
+    withdrawalIds: Types.ObjectId[],
+    status: "approved" | "rejected",
+    actorId: Types.ObjectId,
+    reason?: string
+  ) {
+    const results: { id: string; ok: boolean; error?: string }[] = [];
+
+    for (const id of withdrawalIds) {
+      try {
+        await this.updateWithdrawalStatus(id, status, actorId, reason);
+        results.push({ id: id.toString(), ok: true });
+      } catch (error: any) {
+        results.push({ id: id.toString(), ok: false, error: error.message });
+      }
     }
 
-    return withdrawal;
+    return results;
+  }
+
+  public async listWithdrawals(filters: {
+    status?: string;
+    userId?: Types.ObjectId;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+  }) {
+    const query: Record<string, any> = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.from || filters.to) {
+      query.createdAt = {};
+      if (filters.from) query.createdAt.$gte = filters.from;
+      if (filters.to) query.createdAt.$lte = filters.to;
+    }
+
+    const [items, total] = await Promise.all([
+      this.withdrawalRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit)
+        .populate("userId", "username platform"),
+      this.withdrawalRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+
+  public async getWithdrawalAudit(withdrawalId: Types.ObjectId) {
+    return this.withdrawalAuditRepository
+      .find({ withdrawalId })
+      .sort({ createdAt: -1 })
+      .populate("actorId", "username");
   }
 
   public async updateExp(userId: string, exp: number): Promise<number> {
@@ -283,154 +567,54 @@ class GameService {
     tokensToBuy: number
   ) {
     const objectId = new Types.ObjectId(userId);
-    const user = await this.gameUserRepository.findById(objectId);
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    const cost = tokensToBuy * 100; // 1 token = 100 balance units
-
-    if (user.balance < cost) {
-      throw new Error("Insufficient balance to purchase tokens");
+    if (!Number.isInteger(tokensToBuy) || tokensToBuy <= 0) {
+      throw new Error("Tokens to buy must be a positive whole number");
     }
 
-    // Deduct balance & add tokens
-    user.balance -= cost;
-    user.tokens += tokensToBuy;
+    return this.ledger.runInTransaction(async (session) => {
+      const user = await this.gameUserRepository
+        .findById(objectId)
+        .session(session);
 
-    await user.save();
+      if (!user) {
+        throw new Error("User not found");
+      }
 
-    return {
-      message: `✅ Successfully purchased ${tokensToBuy} tokens`,
-      user,
-    };
-  }
+      const cost = tokensToBuy * BALANCE_PER_TOKEN;
 
-  public async generateQuestionsFromAI(count: number = 50) {
-    let attempts = 0;
+      if (user.balance < cost) {
+        throw new Error("Insufficient balance to purchase tokens");
+      }
 
-    while (attempts < this.MAX_RETRIES) {
-      try {
-        const response = await axios.post(
-          this.TOGETHER_API_URL,
-          {
-            model: "meta-llama/Llama-3.3-70B-Instruct-Turbo",
-            messages: [
-              {
-                role: "user",
-                content: `
-Generate ${count} unique multiple-choice trivia questions across categories 
-(sports, science, history, geography, technology, general knowledge).  
-
-Return as a valid JSON array, each item like:
-{
-  "question": "string",
-  "answer": "string",
-  "category": "string",
-  "difficulty": "easy|medium|hard"
-}
-NO explanations, only JSON array.
-              `,
-              },
-            ],
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${this.TOGETHER_API_KEY}`,
+      // Deduct balance & add tokens
+      const updatedUser = await this.ledger.postUserTransfer(
+        {
+          userId: objectId,
+          reason: LedgerReason.BALANCE_CONVERSION,
+          legs: [
+            {
+              asset: LedgerAsset.BALANCE,
+              amount: -cost,
+              counterAccount: LedgerAccount.EXCHANGE,
             },
-          }
-        );
-
-        const raw =
-          (response.data as any)?.choices?.[0]?.message?.content || "[]";
-
-        // 🧹 Clean possible markdown or prefix
-        let cleaned = raw
-          .replace(/```json/gi, "")
-          .replace(/```/g, "")
-          .replace(/^questions\s*=\s*/, "") // remove "questions ="
-          .trim();
-
-        let questions: any[] = [];
-
-        try {
-          // Try direct parse first
-          questions = JSON.parse(cleaned);
-        } catch {
-          console.warn(
-            "⚠️ Direct JSON parse failed. Falling back to regex parsing..."
-          );
-
-          // ✅ Regex fallback: extract only complete { ... } blocks
-          const matches = cleaned.match(/\{[^}]+\}/g) || [];
-
-          questions = matches
-            .map((obj: any) => {
-              try {
-                return JSON.parse(obj);
-              } catch {
-                return null;
-              }
-            })
-            .filter(Boolean);
-
-          console.log(
-            `✅ Extracted ${questions.length} valid questions from partial AI response`
-          );
-        }
-
-        const enriched = questions.map((q) => ({
-          question: q.question.trim(),
-          answer: q.answer.trim(),
-          category: q.category || "general",
-          difficulty: q.difficulty || "medium",
-          reward_amount:
-            q.difficulty === "hard"
-              ? 250
-              : q.difficulty === "medium"
-              ? 150
-              : 100,
-          used: false,
-          answered_by: null as Types.ObjectId | null,
-        }));
-
-        // ✅ Filter duplicates before inserting
-        const newQuestions: any[] = [];
-        for (const q of enriched) {
-          const exists = await this.questionRepository.findOne({
-            question: q.question,
-          });
-          if (!exists) {
-            newQuestions.push(q);
-          }
-        }
-
-        if (newQuestions.length > 0) {
-          await this.questionRepository.insertMany(newQuestions);
-          console.log(
-            `🎉 Inserted ${newQuestions.length} new questions into DB`
-          );
-        } else {
-          console.log("ℹ️ No new unique questions to insert.");
-        }
-
-        return newQuestions;
-      } catch (error: any) {
-        attempts++;
-
-        if (error.response?.status === 429) {
-          console.warn(`Rate limit reached. Retrying attempt ${attempts}...`);
-          await new Promise((resolve) => setTimeout(resolve, this.RETRY_DELAY));
-        } else {
-          console.error("❌ Error from Together API:", error.message);
-          return [];
-        }
+            {
+              asset: LedgerAsset.TOKEN,
+              amount: tokensToBuy,
+              counterAccount: LedgerAccount.EXCHANGE,
+            },
+          ],
+        },
+        session
+      );
+      if (!updatedUser) {
+        throw new ConflictError("Balance changed while purchasing tokens");
       }
-    }
 
-    console.error("⚠️ Max retries reached. Returning empty set.");
-    return [];
+      return {
+        message: `✅ Successfully purchased ${tokensToBuy} tokens`,
+        user: updatedUser,
+      };
+    });
   }
 }
 
@@ -0,0 +1,92 @@
+import { Types } from "mongoose";
+import { GameUserRepository } from "../db/game..user.db";
+import { TournamentRepository } from "../db/game.tournament.db";
+import { Transaction } from "../db/transaction.db";
+import { IJob, LedgerReason } from "../interfaces/interface";
+import { describeDb, useTestDb } from "../test/db";
+import { JobHandler, JobWorker } from "./job.worker";
+import { SETTLE_TOURNAMENT_JOB, tournamentService } from "./tournament.service";
+
+// Collect the handlers instead of polling the job queue
+const handlers = new Map<string, JobHandler>();
+tournamentService.start({
+  register: (type: string, handler: JobHandler) => handlers.set(type, handler),
+} as unknown as JobWorker);
+
+const settle = (tournamentId: Types.ObjectId, jobId = new Types.ObjectId()) =>
+  handlers.get(SETTLE_TOURNAMENT_JOB)!({
+    _id: jobId,
+    payload: { tournamentId: tournamentId.toString() },
+  } as unknown as IJob);
+
+const createPlayer = async (username: string) => {
+  const user = await GameUserRepository.create({
+    username,
+    platform: "tiktok",
+  });
+  return { user_id: user._id as Types.ObjectId, username };
+};
+
+const createTournament = async () => {
+  const [first, second] = await Promise.all([
+    createPlayer("first"),
+    createPlayer("second"),
+  ]);
+  const tournament = await TournamentRepository.create({
+    name: "Friday cup",
+    room: "t-friday-cup",
+    starts_at: new Date(),
+    rounds: 1,
+    prizes: [100, 50],
+    status: "running",
+    players: [first, second],
+    results: [
+      {
+        round: 1,
+        scores: [
+          { ...first, correct: true, points: 10, response_ms: 1200 },
+          { ...second, correct: true, points: 5, response_ms: 3400 },
+        ],
+      },
+    ],
+  });
+  return { id: tournament._id as Types.ObjectId, first, second };
+};
+
+const balance = async (userId: Types.ObjectId) =>
+  (await GameUserRepository.findById(userId).lean())!.balance;
+
+describeDb("tournament settlement", () => {
+  useTestDb();
+
+  it("pays each prize once when the finish and deadline jobs race", async () => {
+    const { id, first, second } = await createTournament();
+
+    await Promise.all([settle(id), settle(id)]);
+
+    expect(await balance(first.user_id)).toBe(100);
+    expect(await balance(second.user_id)).toBe(50);
+    expect(
+      await Transaction.countDocuments({
+        reason: LedgerReason.TOURNAMENT_PRIZE,
+      })
+    ).toBe(2);
+    expect((await TournamentRepository.findById(id))!.status).toBe("finished");
+  });
+
+  it("lets a retry of the claiming job finish the payout", async () => {
+    const { id, first } = await createTournament();
+    const jobId = new Types.ObjectId();
+    // Claimed by a job that died before paying anyone
+    await TournamentRepository.updateOne(
+      { _id: id },
+      { $set: { status: "settling", settling_job: jobId } }
+    );
+
+    expect(await settle(id)).toEqual({ status: "settling" });
+    await settle(id, jobId);
+
+    expect(await balance(first.user_id)).toBe(100);
+    expect((await TournamentRepository.findById(id))!.status).toBe("finished");
+  });
+});
@@ -0,0 +1,552 @@
+import { Types } from "mongoose";
+import { TournamentRepository } from "../db/game.tournament.db";
+import {
+  IJob,
+  ITournament,
+  ITournamentStanding,
+  LedgerAsset,
+  LedgerReason,
+} from "../interfaces/interface";
+import { requireCategory } from "../game/categories";
+import { roomRegistry } from "../game/room.registry";
+import {
+  QUESTION_DURATION,
+  RESULT_DELAY,
+  TriviaRoom,
+  WAIT_DURATION,
+} from "../game/trivia.room";
+import type { PlayerScore } from "../game/scoring";
+import { AlreadyPostedError, ConflictError } from "./errors";
+import { jobService } from "./job.service";
+import { jobWorker } from "./job.worker";
+import { LedgerAccount, ledgerService } from "./ledger.service";
+
+export const START_TOURNAMENT_JOB = "start-tournament";
+export const SETTLE_TOURNAMENT_JOB = "settle-tournament";
+
+export const MAX_ROUNDS = 50;
+export const MAX_PRIZE_PLACES = 20;
+// Time allowed per round, and for players to turn up, before a
+// tournament is settled with whatever was played
+const ROUND_ALLOWANCE_MS =
+  (QUESTION_DURATION + WAIT_DURATION + RESULT_DELAY) * 1000;
+const DEADLINE_GRACE_MS = 15 * 60 * 1000;
+
+export type TournamentStatus = ITournament["status"];
+
+export type TournamentInput = {
+  name: string;
+  startsAt: Date;
+  entryTokens: number;
+  rounds: number;
+  categories: string[];
+  prizes: number[];
+};
+
+type TournamentJob = { tournamentId: string };
+
+/**
+ * Scheduled trivia tournaments. Players register (and pay the entry fee)
+ * until the start time; a job then opens a dedicated room that plays a
+ * fixed number of rounds, and another settles it: cumulative points
+ * decide the ranking and the prize table is paid out. A tournament still
+ * running at its end time is settled on the rounds played so far.
+ */
+class TournamentService {
+  private readonly tournamentRepository = TournamentRepository;
+  private readonly ledger = ledgerService;
+  private readonly jobs = jobService;
+  private readonly rooms = roomRegistry;
+
+  /**
+   * Register the start and settlement jobs
+   */
+  public start(worker = jobWorker) {
+    worker.register(START_TOURNAMENT_JOB, (job) => this.open(job));
+    worker.register(SETTLE_TOURNAMENT_JOB, (job) => this.settle(job));
+  }
+
+  public validate(raw: any): TournamentInput {
+    if (!raw || typeof raw !== "object") {
+      throw new Error("Tournament must be an object");
+    }
+
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (name.length < 3 || name.length > 80) {
+      throw new Error("name must be 3-80 characters");
+    }
+
+    const startsAt = new Date(raw.startsAt);
+    if (isNaN(startsAt.getTime()) || startsAt.getTime() <= Date.now()) {
+      throw new Error("startsAt must be a date in the future");
+    }
+
+    const entryTokens = raw.entryTokens ?? 0;
+    if (!Number.isInteger(entryTokens) || entryTokens < 0) {
+      throw new Error("entryTokens must be a whole number of at least 0");
+    }
+
+    const rounds = raw.rounds;
+    if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+      throw new Error(`rounds must be a whole number from 1 to ${MAX_ROUNDS}`);
+    }
+
+    if (raw.categories !== undefined && !Array.isArray(raw.categories)) {
+      throw new Error("categories must be an array");
+    }
+    const categories: string[] = [
+      ...new Set<string>((raw.categories ?? []).map(requireCategory)),
+    ];
+
+    const prizes = raw.prizes;
+    if (
+      !Array.isArray(prizes) ||
+      prizes.length === 0 ||
+      prizes.length > MAX_PRIZE_PLACES ||
+      !prizes.every((p: unknown) => Number.isInteger(p) && (p as number) >= 0)
+    ) {
+      throw new Error(
+        `prizes must list 1-${MAX_PRIZE_PLACES} whole amounts, first place first`
+      );
+    }
+
+    return { name, startsAt, entryTokens, rounds, categories, prizes };
+  }
+
+  /**
+   * Schedule a tournament; its room opens at startsAt
+   */
+  public async create(raw: unknown, createdBy: Types.ObjectId) {
+    const input = this.validate(raw);
+    const _id = new Types.ObjectId();
+
+    const tournament = await this.tournamentRepository.create({
+      _id,
+      name: input.name,
+      room: `t-${_id}`,
+      starts_at: input.startsAt,
+      entry_tokens: input.entryTokens,
+      rounds: input.rounds,
+      categories: input.categories,
+      prizes: input.prizes,
+      created_by: createdBy,
+    });
+
+    await this.jobs.enqueue(
+      START_TOURNAMENT_JOB,
+      { tournamentId: _id.toString() },
+      {
+        runAt: input.startsAt,
+        requestedBy: createdBy,
+        dedupeKey: `${START_TOURNAMENT_JOB}:${_id}`,
+      }
+    );
+
+    console.log(
+      `🏆 Tournament "${input.name}" scheduled for ${input.startsAt}`
+    );
+    return tournament;
+  }
+
+  public async get(id: Types.ObjectId) {
+    const tournament = await this.tournamentRepository.findById(id);
+    if (!tournament) throw new Error("Tournament not found");
+    return tournament;
+  }
+
+  public async list(filters: {
+    status?: TournamentStatus;
+    page: number;
+    limit: number;
+  }) {
+    const query = filters.status ? { status: filters.status } : {};
+    const [items, total] = await Promise.all([
+      this.tournamentRepository
+        .find(query)
+        // Round-by-round scores only on the detail view
+        .select("-results")
+        .sort({ starts_at: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      this.tournamentRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+
+  /**
+   * Sign a player up and charge the entry fee, both or neither
+   */
+  public async register(
+    id: Types.ObjectId,
+    userId: Types.ObjectId,
+    username: string
+  ) {
+    const tournament = await this.get(id);
+    if (
+      tournament.status !== "scheduled" ||
+      tournament.starts_at.getTime() <= Date.now()
+    ) {
+      throw new ConflictError("Registration for this tournament is closed");
+    }
+    if (tournament.players.some((p) => p.user_id.equals(userId))) {
+      throw new ConflictError("Already registered for this tournament");
+    }
+
+    return this.ledger.runInTransaction(async (session) => {
+      const updated = await this.tournamentRepository.findOneAndUpdate(
+        {
+          _id: id,
+          status: "scheduled",
+          starts_at: { $gt: new Date() },
+          "players.user_id": { $ne: userId },
+        },
+        {
+          $push: {
+            players: { user_id: userId, username, registered_at: new Date() },
+          },
+        },
+        { new: true, session }
+      );
+      if (!updated) {
+        throw new ConflictError(
+          "Registration closed or already registered for this tournament"
+        );
+      }
+
+      if (tournament.entry_tokens > 0) {
+        const user = await this.ledger.postUserTransfer(
+          {
+            userId,
+            reason: LedgerReason.TOURNAMENT_ENTRY,
+            referenceId: `${id}:${userId}`,
+            legs: [
+              {
+                asset: LedgerAsset.TOKEN,
+                amount: -tournament.entry_tokens,
+                counterAccount: LedgerAccount.HOUSE,
+              },
+            ],
+          },
+          session
+        );
+        if (!user) throw new Error("User not found or insufficient tokens");
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Call off a tournament that hasn't finished: entries are refunded and
+   * its room, if open, is closed
+   */
+  public async cancel(id: Types.ObjectId) {
+    const tournament = await this.tournamentRepository.findOneAndUpdate(
+      { _id: id, status: { $in: ["scheduled", "running"] } },
+      { $set: { status: "cancelled", finished_at: new Date() } },
+      { new: true }
+    );
+    if (!tournament) {
+      await this.get(id);
+      throw new ConflictError("Tournament already finished or cancelled");
+    }
+
+    await this.refundEntries(tournament);
+    if (this.rooms.get(tournament.room)) this.rooms.remove(tournament.room);
+    return tournament;
+  }
+
+  /**
+   * Room hook: keep every player's score for the round. A round is only
+   * stored once, so replays after a failover are harmless.
+   */
+  public async recordScores(
+    room: TriviaRoom,
+    round: number,
+    scores: PlayerScore[]
+  ) {
+    const id = room.config.tournament?.id;
+    if (!id) return;
+
+    await this.tournamentRepository.updateOne(
+      { _id: id, status: "running", "results.round": { $ne: round } },
+      {
+        $push: {
+          results: {
+            round,
+            scores: scores.map((s) => ({
+              user_id: new Types.ObjectId(s.userId),
+              username: s.username,
+              correct: s.correct,
+              points: s.points,
+              response_ms: s.responseMs,
+            })),
+          },
+        },
+      }
+    );
+  }
+
+  /**
+   * Room hook: the last round was played, queue the settlement
+   */
+  public finish(room: TriviaRoom) {
+    const id = room.config.tournament?.id;
+    if (!id) return;
+
+    this.jobs
+      .enqueue(
+        SETTLE_TOURNAMENT_JOB,
+        { tournamentId: id },
+        { dedupeKey: `${SETTLE_TOURNAMENT_JOB}:${id}` }
+      )
+      .catch((err) =>
+        console.error(`❌ Failed to queue settlement of ${id}:`, err)
+      );
+  }
+
+  /**
+   * Final ranking of the registered players who answered at least once:
+   * most points, then most correct rounds, then fastest total time on
+   * correct answers. Players level on all three share the place and
+   * split the prizes of the places they cover; prizes for places nobody
+   * reached are shared by everyone placed.
+   */
+  public rank(tournament: ITournament): ITournamentStanding[] {
+    const registered = new Map(
+      tournament.players.map((p) => [p.user_id.toString(), p])
+    );
+    const totals = new Map<
+      string,
+      {
+        user_id: Types.ObjectId;
+        username: string;
+        points: number;
+        correct: number;
+        time: number;
+      }
+    >();
+
+    for (const result of tournament.results) {
+      for (const s of result.scores) {
+        const id = s.user_id.toString();
+        const player = registered.get(id);
+        if (!player) continue;
+        const total = totals.get(id) ?? {
+          user_id: player.user_id,
+          username: player.username,
+          points: 0,
+          correct: 0,
+          time: 0,
+        };
+        totals.set(id, total);
+        total.points += s.points;
+        if (s.correct) {
+          total.correct++;
+          total.time += s.response_ms ?? 0;
+        }
+      }
+    }
+
+    const ranked = [...totals.values()].sort(
+      (a, b) => b.points - a.points || b.correct - a.correct || a.time - b.time
+    );
+    const level = (a: (typeof ranked)[number], b: (typeof ranked)[number]) =>
+      a.points === b.points && a.correct === b.correct && a.time === b.time;
+    const sum = (amounts: number[]) => amounts.reduce((a, b) => a + b, 0);
+
+    const standings: ITournamentStanding[] = [];
+    for (let i = 0; i < ranked.length; ) {
+      let j = i + 1;
+      while (j < ranked.length && level(ranked[i], ranked[j])) j++;
+      // Rounded down so ties never pay out more than the table
+      const share = Math.floor(sum(tournament.prizes.slice(i, j)) / (j - i));
+      for (const t of ranked.slice(i, j)) {
+        standings.push({
+          user_id: t.user_id,
+          username: t.username,
+          place: i + 1,
+          points: t.points,
+          correct: t.correct,
+          prize: share,
+        });
+      }
+      i = j;
+    }
+
+    const unclaimed = sum(tournament.prizes.slice(ranked.length));
+    if (unclaimed > 0 && standings.length > 0) {
+      const bonus = Math.floor(unclaimed / standings.length);
+      for (const s of standings) s.prize += bonus;
+    }
+    return standings;
+  }
+
+  /**
+   * Job: open the tournament's room and schedule its deadline, or cancel
+   * it if nobody signed up
+   */
+  private async open(job: IJob) {
+    const id = new Types.ObjectId((job.payload as TournamentJob).tournamentId);
+    const scheduled = await this.get(id);
+    const opened = await this.tournamentRepository.findOneAndUpdate(
+      { _id: id, status: "scheduled" },
+      {
+        $set: {
+          status: "running",
+          started_at: new Date(),
+          ends_at: new Date(
+            Date.now() +
+              scheduled.rounds * ROUND_ALLOWANCE_MS +
+              DEADLINE_GRACE_MS
+          ),
+        },
+      },
+      { new: true }
+    );
+    // Cancelled meanwhile, or opened by an earlier attempt
+    const current = opened ?? (await this.get(id));
+    if (current.status !== "running") return { status: current.status };
+
+    if (current.players.length === 0) {
+      await this.tournamentRepository.updateOne(
+        { _id: current._id, status: "running" },
+        { $set: { status: "cancelled", finished_at: new Date() } }
+      );
+      console.warn(`⚠️ Tournament ${current.name} had no players, cancelled`);
+      return { status: "cancelled" };
+    }
+
+    // Settles it even if nobody turns up or everyone leaves
+    await this.jobs.enqueue(
+      SETTLE_TOURNAMENT_JOB,
+      { tournamentId: id.toString() },
+      {
+        runAt: current.ends_at ?? new Date(),
+        dedupeKey: `${SETTLE_TOURNAMENT_JOB}:${id}:deadline`,
+      }
+    );
+
+    if (!this.rooms.get(current.room)) {
+      this.rooms.create({
+        name: current.room,
+        description: `🏆 ${current.name}`,
+        categories: current.categories,
+        // Paid once on registration; rounds only score points
+        entryTokens: 0,
+        rewardMultiplier: 0,
+        minPlayers: 1,
+        scoring: { mode: "time-decay" },
+        tournament: {
+          id: current._id!.toString(),
+          rounds: current.rounds,
+          players: current.players.map((p) => p.user_id.toString()),
+        },
+      });
+    }
+
+    console.log(`🏆 Tournament ${current.name} started in ${current.room}`);
+    return { status: "running", room: current.room };
+  }
+
+  /**
+   * Job: rank the players, pay the prize table and close the room, after
+   * the last round or at the deadline. Nobody having played cancels it
+   * and refunds the entries. The finish hook and the deadline queue
+   * separate jobs, so the first to claim the tournament settles it and
+   * the other returns; retries of the claiming job pick up where it left
+   * off, each prize being paid once.
+   */
+  private async settle(job: IJob) {
+    const { tournamentId } = job.payload as TournamentJob;
+    const id = new Types.ObjectId(tournamentId);
+    const tournament = await this.tournamentRepository.findOneAndUpdate(
+      {
+        _id: id,
+        $or: [
+          { status: "running" },
+          { status: "settling", settling_job: job._id },
+        ],
+      },
+      { $set: { status: "settling", settling_job: job._id } },
+      { new: true }
+    );
+    if (!tournament) return { status: (await this.get(id)).status };
+
+    const standings = this.rank(tournament);
+    if (standings.length === 0) {
+      const cancelled = await this.tournamentRepository.findOneAndUpdate(
+        { _id: tournament._id, status: "settling" },
+        { $set: { status: "cancelled", finished_at: new Date() } },
+        { new: true }
+      );
+      if (cancelled) await this.refundEntries(cancelled);
+      if (this.rooms.get(tournament.room)) this.rooms.remove(tournament.room);
+      console.warn(`⚠️ Nobody played tournament ${tournament.name}, refunded`);
+      return { status: "cancelled" };
+    }
+
+    for (const s of standings) {
+      if (s.prize <= 0) continue;
+      try {
+        const user = await this.ledger.postUserTransfer({
+          userId: s.user_id,
+          reason: LedgerReason.TOURNAMENT_PRIZE,
+          referenceId: `${tournamentId}:${s.user_id}`,
+          legs: [
+            {
+              asset: LedgerAsset.BALANCE,
+              amount: s.prize,
+              counterAccount: LedgerAccount.HOUSE,
+            },
+          ],
+          metadata: { place: s.place, points: s.points },
+        });
+        if (!user) console.error(`❌ Prize winner ${s.user_id} not found`);
+      } catch (error) {
+        // Paid by an earlier attempt
+        if (!(error instanceof AlreadyPostedError)) throw error;
+      }
+    }
+
+    await this.tournamentRepository.updateOne(
+      { _id: tournament._id, status: "settling" },
+      { $set: { status: "finished", standings, finished_at: new Date() } }
+    );
+    if (this.rooms.get(tournament.room)) this.rooms.remove(tournament.room);
+
+    console.log(
+      `🏆 Tournament ${tournament.name} finished, won by ${
+        standings[0]?.username ?? "nobody"
+      }`
+    );
+    return { status: "finished", standings };
+  }
+
+  private async refundEntries(tournament: ITournament) {
+    if (tournament.entry_tokens <= 0) return;
+
+    for (const p of tournament.players) {
+      try {
+        await this.ledger.postUserTransfer({
+          userId: p.user_id,
+          reason: LedgerReason.TOURNAMENT_REFUND,
+          referenceId: `${tournament._id}:${p.user_id}`,
+          legs: [
+            {
+              asset: LedgerAsset.TOKEN,
+              amount: tournament.entry_tokens,
+              counterAccount: LedgerAccount.HOUSE,
+            },
+          ],
+        });
+      } catch (err) {
+        if (err instanceof AlreadyPostedError) continue;
+        console.error(`❌ Tournament refund failed for ${p.user_id}:`, err);
+      }
+    }
+  }
+}
+
+export const tournamentService = new TournamentService();
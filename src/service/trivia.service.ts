@@ -0,0 +1,133 @@
+import { Types } from "mongoose";
+import { TriviaRoundRepository } from "../db/game.trivia.round.db";
+import { TriviaSubmission, WinnerSelection } from "../game/winner.selection";
+import type { PrizePool } from "../game/prize.pool";
+
+class TriviaService {
+  private readonly triviaRoundRepository = TriviaRoundRepository;
+
+  /**
+   * Persist the full outcome of a round so disputes can be checked later
+   */
+  public async recordRound(params: {
+    room: string;
+    round: number;
+    roundKey: string; // see TriviaRoom, ledger references use it too
+    question: any;
+    startedAt: number;
+    participants: { userId: string; username: string }[];
+    submissions: TriviaSubmission[];
+    selection: WinnerSelection;
+    scoring?: string; // see game/scoring.ts
+    entryTokens?: number;
+    pool?: PrizePool;
+    payouts: { userId: string; amount: number; points?: number }[];
+  }) {
+    const {
+      room,
+      round,
+      roundKey,
+      question,
+      startedAt,
+      submissions,
+      selection,
+      scoring,
+      entryTokens,
+      pool,
+      payouts,
+    } = params;
+
+    // Anyone who answered counts as a participant even if they left
+    const participants = new Map(
+      params.participants.map((p) => [p.userId, p.username])
+    );
+    for (const s of submissions) participants.set(s.userId, s.username);
+
+    return this.triviaRoundRepository.create({
+      room,
+      round,
+      round_key: roundKey,
+      question_id: question?._id ?? null,
+      question: question?.question,
+      correct_answer: question?.answer,
+      started_at: new Date(startedAt),
+      ended_at: new Date(),
+      participants: [...participants].map(([userId, username]) => ({
+        user_id: new Types.ObjectId(userId),
+        username,
+      })),
+      submissions: submissions.map((s) => ({
+        user_id: new Types.ObjectId(s.userId),
+        username: s.username,
+        answer: s.answer,
+        received_at: new Date(s.receivedAt),
+        sequence: s.sequence,
+        correct: s.correct,
+        tokens_spent: s.tokensSpent,
+      })),
+      winner_id: selection.winner
+        ? new Types.ObjectId(selection.winner.userId)
+        : null,
+      winner_username: selection.winner?.username ?? null,
+      rule: selection.rule,
+      tied_user_ids: selection.tiedUserIds.map((id) => new Types.ObjectId(id)),
+      scoring: scoring ?? "winner-takes-all",
+      entry_tokens: entryTokens ?? 0,
+      pool: pool ?? null,
+      reward: payouts.reduce((sum, p) => sum + p.amount, 0),
+      payouts: payouts.map((p) => ({
+        user_id: new Types.ObjectId(p.userId),
+        amount: p.amount,
+        points: p.points ?? null,
+      })),
+    });
+  }
+
+  public async isRecorded(roundKey: string) {
+    return !!(await this.triviaRoundRepository.exists({
+      round_key: roundKey,
+    }));
+  }
+
+  public async getRound(roundId: Types.ObjectId) {
+    const round = await this.triviaRoundRepository.findById(roundId);
+    if (!round) throw new Error("Round not found");
+    return round;
+  }
+
+  public async listRounds(filters: {
+    room?: string;
+    userId?: Types.ObjectId;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+  }) {
+    const query: Record<string, any> = {};
+    if (filters.room) query.room = filters.room;
+    if (filters.userId) {
+      query.$or = [
+        { "participants.user_id": filters.userId },
+        { "submissions.user_id": filters.userId },
+      ];
+    }
+    if (filters.from || filters.to) {
+      query.createdAt = {};
+      if (filters.from) query.createdAt.$gte = filters.from;
+      if (filters.to) query.createdAt.$lte = filters.to;
+    }
+
+    const [items, total] = await Promise.all([
+      this.triviaRoundRepository
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      this.triviaRoundRepository.countDocuments(query),
+    ]);
+
+    return { items, total, page: filters.page, limit: filters.limit };
+  }
+}
+
+export const triviaService = new TriviaService();
@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+
+// Started once by mongo.setup.ts, unset when no mongod is available
+const uri = process.env.MONGO_TEST_URI;
+
+export const describeDb = uri ? describe : describe.skip;
+
+/**
+ * Connect to the shared replica set and wipe it between tests. Call at
+ * the top of a describeDb block.
+ */
+export const useTestDb = () => {
+  beforeAll(async () => {
+    await mongoose.connect(uri!);
+    // Collections can't be created inside the transactions under test, and
+    // the unique journal index has to exist before the races start
+    await Promise.all(
+      Object.values(mongoose.models).map(async (m) => {
+        await m.createCollection();
+        await m.ensureIndexes();
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    await Promise.all(
+      Object.values(mongoose.models).map((m) => m.deleteMany({}))
+    );
+  });
+};
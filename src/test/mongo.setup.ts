@@ -0,0 +1,30 @@
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+
+declare global {
+  var __MONGO_REPLSET__: MongoMemoryReplSet | undefined;
+}
+
+/**
+ * Jest global setup: one single-member replica set (transactions need
+ * one) for every database suite, its uri handed over in MONGO_TEST_URI.
+ * mongod comes from MONGOMS_SYSTEM_BINARY, the download cache or a fresh
+ * download; with none of those the suites are skipped, not failed.
+ */
+export default async () => {
+  try {
+    const replSet = await MongoMemoryReplSet.create({
+      replSet: { count: 1, storageEngine: "wiredTiger" },
+    });
+    globalThis.__MONGO_REPLSET__ = replSet;
+    process.env.MONGO_TEST_URI = replSet.getUri();
+  } catch (error: any) {
+    console.warn(
+      `\n⚠️ Skipping database suites, no mongod available: ${error.message}\n` +
+        "   Set MONGOMS_SYSTEM_BINARY to a local mongod to run them offline."
+    );
+  }
+};
+
+export const teardown = async () => {
+  await globalThis.__MONGO_REPLSET__?.stop();
+};
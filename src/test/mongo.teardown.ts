@@ -0,0 +1 @@
+export { teardown as default } from "./mongo.setup";